@@ -20,17 +20,68 @@ export type {
   BobQuerySmartContractResult,
 } from "./src/bob/client.js";
 export { BobError, createBobClient } from "./src/bob/client.js";
+export type { SqliteLogCursorStoreOptions } from "./src/bob/cursor-store.js";
+export {
+  createFileLogCursorStore,
+  createSqliteLogCursorStore,
+  LogCursorStoreError,
+} from "./src/bob/cursor-store.js";
+export type {
+  IdbDatabaseLike,
+  IdbObjectStoreLike,
+  IdbOpenRequestLike,
+  IdbRequestLike,
+  IdbTransactionLike,
+  IndexedDbFactoryLike,
+  IndexedDbLogCursorStoreOptions,
+  LocalStorageLogCursorStoreOptions,
+} from "./src/bob/cursor-store-browser.js";
+export {
+  createIndexedDbLogCursorStore,
+  createLocalStorageLogCursorStore,
+} from "./src/bob/cursor-store-browser.js";
 export type {
   EventLike,
+  LogBackfillInfo,
   LogCursor,
   LogCursorStore,
+  LogFilter,
+  LogGap,
+  LogIteratorOptions,
+  LogMessage,
   LogStream,
+  LogStreamBackfillConfig,
   LogStreamConfig,
+  LogStreamEvent,
+  LogStreamEvents,
   LogStreamHandlers,
+  LogStreamHeartbeatConfig,
+  LogStreamReconnectConfig,
   LogSubscription,
   WebSocketLike,
 } from "./src/bob/log-stream.js";
 export { createLogStream } from "./src/bob/log-stream.js";
+export type {
+  BobAssetBalance,
+  BobBalance,
+  BobBroadcastResult,
+  BobEpochInfo,
+  BobLogDecodeInput,
+  BobLogDecoder,
+  BobLogEvent,
+  BobRaw,
+  BobStatus,
+  BobTickData,
+  BobTransaction,
+} from "./src/bob/models.js";
+export type { BobPageCursor, BobWindowPage, BobWindowPagingInput } from "./src/bob/paging.js";
+export type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChange,
+} from "./src/circuit-breaker.js";
+export { CircuitOpenError, createCircuitBreaker } from "./src/circuit-breaker.js";
 export type {
   ContractsHelpers,
   ContractsHelpersConfig,
@@ -40,15 +91,38 @@ export type {
 export { ContractQueryAbortedError, createContractHelpers } from "./src/contracts.js";
 export type { ErrorContext } from "./src/errors.js";
 export { SdkError } from "./src/errors.js";
+export type { FetchLike, RequestOptions } from "./src/http.js";
+export type {
+  LatencyHistogram,
+  LatencyHistogramConfig,
+  LatencyHistogramSnapshot,
+  LoggingMiddlewareConfig,
+  LoggingMiddlewareEntry,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+} from "./src/middleware.js";
+export {
+  composeMiddleware,
+  createLatencyHistogram,
+  createLoggingMiddleware,
+} from "./src/middleware.js";
 export type {
   QbiCodec,
   QbiCodecRegistry,
   QbiContractCodecs,
   QbiContractHandle,
+  QbiDecodedLog,
   QbiEntry,
   QbiFile,
   QbiHelpers,
   QbiHelpersConfig,
+  QbiLogCodec,
+  QbiLogDecoder,
+  QbiLogDecoderConfig,
+  QbiLogEntry,
+  QbiLogEvent,
+  QbiLogInput,
   QbiProcedureTxInput,
   QbiQueryInput,
   QbiQueryResult,
@@ -57,6 +131,7 @@ export type {
 } from "./src/qbi.js";
 export {
   createQbiHelpers,
+  createQbiLogDecoder,
   createQbiRegistry,
   defineQbiCodecs,
   QbiCodecError,
@@ -65,16 +140,30 @@ export {
   QbiEntryNotFoundError,
   QbiError,
 } from "./src/qbi.js";
+export type { RateLimitConfig, RateLimiter } from "./src/rate-limit.js";
+export { createRateLimiter } from "./src/rate-limit.js";
 export type { RetryConfig } from "./src/retry.js";
+export { parseRetryAfter } from "./src/retry.js";
+export type { MemoryRpcCacheConfig, RpcCacheConfig, RpcCacheStore } from "./src/rpc/cache.js";
+export {
+  createMemoryRpcCache,
+  deserializeCacheValue,
+  serializeCacheValue,
+} from "./src/rpc/cache.js";
+export type { FileRpcCacheConfig } from "./src/rpc/cache-file.js";
+export { createFileRpcCache } from "./src/rpc/cache-file.js";
 export type {
   BroadcastTransactionResult,
   ComputorList,
   LastProcessedTick,
   LiveBalance,
+  LiveBalancesOptions,
+  LiveBalancesResult,
   ProcessedTickInterval,
   QueryTransaction,
   RpcClient,
   RpcClientConfig,
+  RpcCoalesceConfig,
   TickData,
   TickInfo,
   TransactionsForIdentityPagingInput,
@@ -82,10 +171,29 @@ export type {
   TransactionsForIdentityResponse,
 } from "./src/rpc/client.js";
 export { createRpcClient, RpcError } from "./src/rpc/client.js";
+export type { RpcEndpoint, RpcEndpointStatus, RpcFailoverConfig } from "./src/rpc/endpoints.js";
 export type { SdkConfig } from "./src/sdk.js";
 export { createSdk } from "./src/sdk.js";
-export type { SuggestedTargetTickInput, TickHelpers, TickHelpersConfig } from "./src/tick.js";
-export { createTickHelpers } from "./src/tick.js";
+export type { SqliteDatabaseLike } from "./src/storage.js";
+export type {
+  AdaptiveTickOffsetConfig,
+  EpochBoundary,
+  EpochBoundaryConfig,
+  SuggestedTargetTickInput,
+  TickHelpers,
+  TickHelpersConfig,
+  TickOffsetEstimate,
+} from "./src/tick.js";
+export { createTickHelpers, TargetTickBeyondEpochError } from "./src/tick.js";
+export type {
+  EpochChange,
+  FreshTickOptions,
+  TickSnapshot,
+  TickWatcher,
+  TickWatcherConfig,
+  WaitForTickOptions,
+} from "./src/tick-watcher.js";
+export { createTickWatcher } from "./src/tick-watcher.js";
 export type {
   BuildSignedTransactionInput,
   BuiltTransaction,
@@ -108,27 +216,56 @@ export type {
 } from "./src/transfers.js";
 export { createTransferHelpers } from "./src/transfers.js";
 export type {
+  ProcessedTickSource,
   TxConfirmationHelpers,
   TxConfirmationHelpersConfig,
+  TxConfirmationStrategy,
   WaitForConfirmationInput,
 } from "./src/tx/confirm.js";
 export {
+  createLogStreamTickSource,
   createTxConfirmationHelpers,
   TxConfirmationAbortedError,
   TxConfirmationTimeoutError,
+  TxEpochChangedError,
   TxNotFoundError,
 } from "./src/tx/confirm.js";
+export type {
+  RebroadcastUntilProcessedInput,
+  TxBroadcastAttempt,
+  TxRebroadcastOptions,
+} from "./src/tx/rebroadcast.js";
+export { rebroadcastUntilProcessed } from "./src/tx/rebroadcast.js";
 export type { TxHelpers, TxHelpersConfig } from "./src/tx/tx.js";
 export { createTxHelpers } from "./src/tx/tx.js";
 export type {
   EnqueueTxInput,
+  TxQueueChangesOptions,
   TxQueueConfig,
   TxQueueConfirmFn,
+  TxQueueEvent,
+  TxQueueEvents,
+  TxQueueFairness,
   TxQueueItem,
+  TxQueueItemFilter,
   TxQueueItemStatus,
+  TxQueueLatencyStats,
   TxQueuePolicy,
+  TxQueueRebroadcast,
+  TxQueueRecord,
+  TxQueueRetention,
+  TxQueueStats,
+  TxQueueStatusChange,
+  TxQueueStore,
 } from "./src/tx/tx-queue.js";
 export { TxQueue, TxQueueError } from "./src/tx/tx-queue.js";
+export type { SqliteTxQueueStoreOptions } from "./src/tx/tx-queue-store.js";
+export {
+  createFileTxQueueStore,
+  createMemoryTxQueueStore,
+  createSqliteTxQueueStore,
+  TxQueueStoreError,
+} from "./src/tx/tx-queue-store.js";
 export type {
   OpenSeedVaultInput,
   SeedVault,
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import type { FetchLike } from "../http.js";
-import { createBobClient } from "./client.js";
+import { BobError, createBobClient } from "./client.js";
 
 describe("bob client", () => {
   it("querySmartContract sends hex payload and parses response", async () => {
@@ -77,7 +77,185 @@ describe("bob client", () => {
     });
     const res = await bob.status();
     expect(attempts).toBe(2);
-    expect(res).toEqual({ ok: true });
+    expect(res.raw).toEqual({ ok: true });
+  });
+
+  it("parses balances and transactions into typed models", async () => {
+    const fetch: FetchLike = async (input) => {
+      const url = new URL(getUrl(input));
+      if (url.pathname === "/balance/ID") {
+        return Response.json({ balance: "1000", incomingAmount: 10, currentTick: 123 });
+      }
+      if (url.pathname === "/tx/HASH") {
+        return Response.json({
+          hash: "HASH",
+          from: "SRC",
+          to: "DST",
+          amount: "5",
+          tick: 120,
+          inputType: 0,
+          executed: true,
+        });
+      }
+      return new Response("not found", { status: 404 });
+    };
+    const bob = createBobClient({ baseUrl: "http://example.test", fetch });
+
+    const balance = await bob.balance("ID");
+    expect(balance.identity).toBe("ID");
+    expect(balance.balance).toBe(1000n);
+    expect(balance.incomingAmount).toBe(10n);
+    expect(balance.currentTick).toBe(123);
+
+    const tx = await bob.tx("HASH");
+    expect(tx).toMatchObject({ source: "SRC", destination: "DST", amount: 5n, tick: 120 });
+    expect(tx.executed).toBe(true);
+  });
+
+  it("parses log lists from bare or wrapped arrays", async () => {
+    const log = { epoch: 150, tick: 10, logId: 7, type: 0, body: { amount: "1" } };
+    const fetch: FetchLike = async (input) => {
+      const url = new URL(getUrl(input));
+      if (url.pathname === "/log/150/7/7") return Response.json([log]);
+      if (url.pathname === "/findLog") return Response.json({ logIds: [7, 8] });
+      return new Response("not found", { status: 404 });
+    };
+    const bob = createBobClient({ baseUrl: "http://example.test", fetch });
+
+    const logs = await bob.logRange({ epoch: 150, fromId: 7, toId: 7 });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ epoch: 150, tick: 10, logId: 7, logType: 0 });
+    expect(logs[0]?.body).toEqual({ amount: "1" });
+
+    const ids = await bob.findLog({
+      fromTick: 1,
+      toTick: 10,
+      scIndex: 0,
+      logType: 0,
+      topic1: "",
+      topic2: "",
+      topic3: "",
+    });
+    expect(ids).toEqual([7, 8]);
+  });
+
+  it("decodes log query results with the configured log decoder", async () => {
+    const fetch: FetchLike = async () =>
+      Response.json([
+        { tick: 10, logId: 7, logType: 0, body: { amount: "3" } },
+        { tick: 10, logId: 8, scIndex: 1, logType: 2, body: {} },
+      ]);
+    const bob = createBobClient({
+      baseUrl: "http://example.test",
+      fetch,
+      logDecoder: {
+        decode: (log) =>
+          log.scIndex === 0 && log.logType === 0 ? BigInt(log.body.amount as string) : undefined,
+      },
+    });
+
+    const logs = await bob.getQuTransfersForIdentity({ fromTick: 1, toTick: 10, identity: "ID" });
+    expect(logs[0]?.decoded).toBe(3n);
+    expect(logs[1]?.decoded).toBeUndefined();
+    expect(logs[1]?.logId).toBe(8);
+  });
+
+  it("raises bob_invalid_response for malformed payloads", async () => {
+    const errors: BobError[] = [];
+    const fetch: FetchLike = async () => Response.json({ hash: "HASH", amount: 1.5 });
+    const bob = createBobClient({
+      baseUrl: "http://example.test",
+      fetch,
+      onError: (error) => errors.push(error),
+    });
+
+    const error = await bob.tx("HASH").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(BobError);
+    expect((error as BobError).code).toBe("bob_invalid_response");
+    expect((error as BobError).details.path).toBe("tx.source");
+    expect(errors).toHaveLength(1);
+  });
+
+  it("walks tick windows and shrinks them when a response looks capped", async () => {
+    const windows: [number, number][] = [];
+    const fetch: FetchLike = async (input, init) => {
+      const body = readJsonBody(input, init);
+      const fromTick = body.fromTick as number;
+      const toTick = body.toTick as number;
+      windows.push([fromTick, toTick]);
+      // One transfer per tick, truncated by the server at 5 results.
+      const count = Math.min(toTick - fromTick + 1, 5);
+      return Response.json(
+        Array.from({ length: count }, (_, i) => ({
+          tick: fromTick + i,
+          logId: fromTick + i,
+          type: 0,
+        })),
+      );
+    };
+    const bob = createBobClient({ baseUrl: "http://example.test", fetch });
+
+    const ticks: number[] = [];
+    let cursor: { next: number } | undefined;
+    for await (const page of bob.getQuTransfersForIdentityPages({
+      fromTick: 1,
+      toTick: 10,
+      identity: "ID",
+      windowSize: 8,
+      maxResultsPerWindow: 5,
+    })) {
+      ticks.push(...page.items.map((e) => e.tick));
+      cursor = page.cursor;
+      if (page.to >= 6) break;
+    }
+    expect(windows.slice(0, 3)).toEqual([
+      [1, 8],
+      [1, 4],
+      [5, 8],
+    ]);
+    expect(ticks).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    const resumed: number[] = [];
+    for await (const page of bob.getQuTransfersForIdentityPages({
+      fromTick: 1,
+      toTick: 10,
+      identity: "ID",
+      maxResultsPerWindow: 5,
+      cursor,
+    })) {
+      resumed.push(...page.items.map((e) => e.tick));
+    }
+    expect(resumed).toEqual([9, 10]);
+  });
+
+  it("halves log id windows when the server answers 413", async () => {
+    const ranges: string[] = [];
+    const fetch: FetchLike = async (input) => {
+      const url = new URL(getUrl(input));
+      const [, , , fromId, toId] = url.pathname.split("/").map(Number);
+      ranges.push(`${fromId}-${toId}`);
+      if ((toId ?? 0) - (fromId ?? 0) >= 2) return new Response("too large", { status: 413 });
+      return Response.json([]);
+    };
+    const bob = createBobClient({ baseUrl: "http://example.test", fetch });
+
+    const pages = [];
+    for await (const page of bob.logRangePages({ epoch: 1, fromId: 0, toId: 3, windowSize: 4 })) {
+      pages.push([page.from, page.to]);
+    }
+    expect(ranges[0]).toBe("0-3");
+    expect(pages).toEqual([
+      [0, 1],
+      [2, 3],
+    ]);
+  });
+
+  it("times out hung requests with bob_timeout", async () => {
+    const fetch: FetchLike = () => new Promise<Response>(() => {});
+    const bob = createBobClient({ baseUrl: "http://example.test", fetch });
+    const error = await bob.status({ timeoutMs: 5 }).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(BobError);
+    expect((error as BobError).code).toBe("bob_timeout");
   });
 });
 
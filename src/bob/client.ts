@@ -1,13 +1,49 @@
+import type { CircuitBreaker } from "../circuit-breaker.js";
 import { SdkError } from "../errors.js";
-import type { FetchLike } from "../http.js";
-import { normalizeRetryConfig, type RetryConfig, withRetry } from "../retry.js";
-
-export type BobClientConfig = Readonly<{
+import { createRequestSignal, type FetchLike, type RequestOptions, raceSignal } from "../http.js";
+import { composeMiddleware, type Middleware } from "../middleware.js";
+import { createRateLimiter, type RateLimitConfig } from "../rate-limit.js";
+import { normalizeRetryConfig, parseRetryAfter, type RetryConfig, withRetry } from "../retry.js";
+import {
+  type BobAssetBalance,
+  type BobBalance,
+  type BobBroadcastResult,
+  type BobEpochInfo,
+  type BobLogDecoder,
+  type BobLogEvent,
+  BobResponseShapeError,
+  type BobStatus,
+  type BobTickData,
+  type BobTransaction,
+  decodeBobLogs,
+  parseBobAssetBalance,
+  parseBobBalance,
+  parseBobBroadcastResult,
+  parseBobEpochInfo,
+  parseBobLogIds,
+  parseBobLogList,
+  parseBobStatus,
+  parseBobTickData,
+  parseBobTransaction,
+} from "./models.js";
+import { type BobWindowPage, type BobWindowPagingInput, walkWindows } from "./paging.js";
+
+export type BobClientConfig<D = unknown> = Readonly<{
   /** Base URL for QubicBob (default: http://localhost:40420). */
   baseUrl?: string;
   fetch?: FetchLike;
   headers?: Readonly<Record<string, string>>;
   retry?: RetryConfig;
+  /** Token-bucket rate and concurrency limits applied to every HTTP attempt, retries included. */
+  rateLimit?: RateLimitConfig;
+  /** Fails fast with `circuit_open` while the node keeps failing (key: `bob:<url>`). */
+  circuitBreaker?: CircuitBreaker;
+  /** Runs around every HTTP attempt, in order; may rewrite the request or short-circuit it. */
+  middleware?: readonly Middleware[];
+  /** Default per-attempt timeout in ms (default: 30_000). Use 0 to disable. */
+  timeoutMs?: number;
+  /** Decodes log and transfer query results into `decoded`, e.g. `createQbiLogDecoder`. */
+  logDecoder?: BobLogDecoder<D>;
   onRequest?: (info: Readonly<{ url: string; method: string; body?: unknown }>) => void;
   onResponse?: (
     info: Readonly<{
@@ -33,6 +69,10 @@ export class BobError extends SdkError {
       status?: number;
       statusText?: string;
       bodyText?: string;
+      /** Parsed `Retry-After` header of a failed response, in ms. */
+      retryAfterMs?: number;
+      /** Offending field of a `bob_invalid_response` error, e.g. `tx.amount`. */
+      path?: string;
     }>,
     cause?: unknown,
   ) {
@@ -55,310 +95,518 @@ export type BobQuerySmartContractResult = Readonly<{
   message?: string;
 }>;
 
-export type BobClient = Readonly<{
-  status(): Promise<unknown>;
-  balance(identity: string): Promise<unknown>;
-  asset(input: {
-    identity: string;
-    issuer: string;
-    assetName: string;
-    manageSCIndex: number;
-  }): Promise<unknown>;
-  epochInfo(epoch: number): Promise<unknown>;
-  tx(hash: string): Promise<unknown>;
-  logRange(input: { epoch: number; fromId: number; toId: number }): Promise<unknown>;
-  tick(tickNumber: number): Promise<unknown>;
-  findLog(input: {
-    fromTick: number;
-    toTick: number;
-    scIndex: number;
-    logType: number;
-    topic1: string;
-    topic2: string;
-    topic3: string;
-  }): Promise<unknown>;
-  getLogCustom(input: {
-    epoch: number;
-    tick: number;
-    scIndex: number;
-    logType: number;
-    topic1: string;
-    topic2: string;
-    topic3: string;
-  }): Promise<unknown>;
-  querySmartContract(input: BobQuerySmartContractInput): Promise<BobQuerySmartContractResult>;
-  broadcastTransaction(input: { dataHex?: string; dataBytes?: Uint8Array }): Promise<unknown>;
-  getQuTransfersForIdentity(input: {
-    fromTick: number;
-    toTick: number;
-    identity: string;
-  }): Promise<unknown>;
-  getAssetTransfersForIdentity(input: {
-    fromTick: number;
-    toTick: number;
-    identity: string;
-    assetIssuer: string;
-    assetName: string;
-  }): Promise<unknown>;
-  getAllAssetTransfers(input: {
-    fromTick: number;
-    toTick: number;
-    assetIssuer: string;
-    assetName: string;
-  }): Promise<unknown>;
+export type BobClient<D = unknown> = Readonly<{
+  status(options?: RequestOptions): Promise<BobStatus>;
+  balance(identity: string, options?: RequestOptions): Promise<BobBalance>;
+  asset(
+    input: {
+      identity: string;
+      issuer: string;
+      assetName: string;
+      manageSCIndex: number;
+    },
+    options?: RequestOptions,
+  ): Promise<BobAssetBalance>;
+  epochInfo(epoch: number, options?: RequestOptions): Promise<BobEpochInfo>;
+  tx(hash: string, options?: RequestOptions): Promise<BobTransaction>;
+  logRange(
+    input: { epoch: number; fromId: number; toId: number },
+    options?: RequestOptions,
+  ): Promise<readonly BobLogEvent<D>[]>;
+  tick(tickNumber: number, options?: RequestOptions): Promise<BobTickData>;
+  findLog(
+    input: {
+      fromTick: number;
+      toTick: number;
+      scIndex: number;
+      logType: number;
+      topic1: string;
+      topic2: string;
+      topic3: string;
+    },
+    options?: RequestOptions,
+  ): Promise<readonly number[]>;
+  getLogCustom(
+    input: {
+      epoch: number;
+      tick: number;
+      scIndex: number;
+      logType: number;
+      topic1: string;
+      topic2: string;
+      topic3: string;
+    },
+    options?: RequestOptions,
+  ): Promise<readonly BobLogEvent<D>[]>;
+  querySmartContract(
+    input: BobQuerySmartContractInput,
+    options?: RequestOptions,
+  ): Promise<BobQuerySmartContractResult>;
+  broadcastTransaction(
+    input: { dataHex?: string; dataBytes?: Uint8Array },
+    options?: RequestOptions,
+  ): Promise<BobBroadcastResult>;
+  getQuTransfersForIdentity(
+    input: {
+      fromTick: number;
+      toTick: number;
+      identity: string;
+    },
+    options?: RequestOptions,
+  ): Promise<readonly BobLogEvent<D>[]>;
+  getAssetTransfersForIdentity(
+    input: {
+      fromTick: number;
+      toTick: number;
+      identity: string;
+      assetIssuer: string;
+      assetName: string;
+    },
+    options?: RequestOptions,
+  ): Promise<readonly BobLogEvent<D>[]>;
+  getAllAssetTransfers(
+    input: {
+      fromTick: number;
+      toTick: number;
+      assetIssuer: string;
+      assetName: string;
+    },
+    options?: RequestOptions,
+  ): Promise<readonly BobLogEvent<D>[]>;
+  logRangePages(
+    input: { epoch: number; fromId: number; toId: number } & BobWindowPagingInput,
+    options?: RequestOptions,
+  ): AsyncGenerator<BobWindowPage<BobLogEvent<D>>, void, void>;
+  getQuTransfersForIdentityPages(
+    input: { fromTick: number; toTick: number; identity: string } & BobWindowPagingInput,
+    options?: RequestOptions,
+  ): AsyncGenerator<BobWindowPage<BobLogEvent<D>>, void, void>;
+  getAssetTransfersForIdentityPages(
+    input: {
+      fromTick: number;
+      toTick: number;
+      identity: string;
+      assetIssuer: string;
+      assetName: string;
+    } & BobWindowPagingInput,
+    options?: RequestOptions,
+  ): AsyncGenerator<BobWindowPage<BobLogEvent<D>>, void, void>;
+  getAllAssetTransfersPages(
+    input: {
+      fromTick: number;
+      toTick: number;
+      assetIssuer: string;
+      assetName: string;
+    } & BobWindowPagingInput,
+    options?: RequestOptions,
+  ): AsyncGenerator<BobWindowPage<BobLogEvent<D>>, void, void>;
 }>;
 
-export function createBobClient(config: BobClientConfig = {}): BobClient {
+export function createBobClient<D = unknown>(config: BobClientConfig<D> = {}): BobClient<D> {
   const baseUrl = ensureTrailingSlash(config.baseUrl ?? "http://localhost:40420");
   const base = new URL(baseUrl);
   const doFetch = config.fetch ?? fetch;
+  const dispatch = composeMiddleware(config.middleware ?? [], (ctx) =>
+    doFetch(ctx.url, {
+      method: ctx.method,
+      headers: ctx.headers,
+      body: ctx.body,
+      signal: ctx.signal,
+    }),
+  );
   const retryConfig = normalizeRetryConfig(config.retry);
+  const limiter = config.rateLimit ? createRateLimiter(config.rateLimit) : undefined;
+
+  const defaultTimeoutMs = config.timeoutMs ?? 30_000;
+  const breakerKey = `bob:${base.toString()}`;
+
+  const send = async (
+    method: string,
+    url: URL,
+    options: RequestOptions,
+    body: unknown,
+    handle: (res: Response, text: string) => unknown,
+  ): Promise<unknown> => {
+    if (options.signal?.aborted) throw abortedError(url, method, options.signal.reason);
+    let release: (() => void) | undefined;
+    try {
+      release = await limiter?.acquire(options.signal);
+    } catch (error) {
+      throw abortedError(url, method, error);
+    }
+    // The timeout covers the HTTP attempt only, not time spent queued behind the limiter.
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    const request = createRequestSignal(options.signal, timeoutMs);
+    const start = Date.now();
+    const headers: Record<string, string> = {
+      accept: "application/json",
+      ...config.headers,
+    };
+    let bodyText: string | undefined;
+    if (body !== undefined) {
+      headers["content-type"] = "application/json";
+      bodyText = JSON.stringify(body);
+    }
+
+    try {
+      config.onRequest?.({ url: url.toString(), method, body });
+      const res = await raceSignal(
+        dispatch({
+          client: "bob",
+          url,
+          method,
+          headers,
+          body: bodyText,
+          signal: request.signal,
+          state: {},
+        }),
+        request.signal,
+      );
+      config.onResponse?.({
+        url: url.toString(),
+        method,
+        status: res.status,
+        ok: res.ok,
+        durationMs: Date.now() - start,
+      });
 
-  const requestJson = async (method: string, url: URL, body?: unknown): Promise<unknown> => {
-    return withRetry(
-      retryConfig,
-      method,
-      async () => {
-        const start = Date.now();
-        const headers: Record<string, string> = {
-          accept: "application/json",
-          ...config.headers,
-        };
-        let bodyText: string | undefined;
-        if (body !== undefined) {
-          headers["content-type"] = "application/json";
-          bodyText = JSON.stringify(body);
-        }
-
-        try {
-          config.onRequest?.({ url: url.toString(), method, body });
-          const res = await doFetch(url, {
-            method,
-            headers,
-            body: bodyText,
-          });
-          config.onResponse?.({
-            url: url.toString(),
-            method,
-            status: res.status,
-            ok: res.ok,
-            durationMs: Date.now() - start,
-          });
-
-          const text = await res.text();
-          if (!res.ok) {
-            const error = new BobError(
-              "bob_request_failed",
-              `QubicBob request failed: ${res.status} ${res.statusText}`,
+      const text = await raceSignal(res.text(), request.signal);
+      return handle(res, text);
+    } catch (error) {
+      if (error instanceof BobError) throw error;
+      const wrapped = request.timedOut()
+        ? new BobError(
+            "bob_timeout",
+            `QubicBob request timed out after ${timeoutMs}ms`,
+            { url: url.toString(), method },
+            error,
+          )
+        : options.signal?.aborted
+          ? abortedError(url, method, error)
+          : new BobError(
+              "bob_fetch_error",
+              "QubicBob fetch failed",
               {
                 url: url.toString(),
                 method,
-                status: res.status,
-                statusText: res.statusText,
-                bodyText: text || undefined,
               },
+              error,
             );
-            config.onError?.(error);
-            throw error;
-          }
-
-          if (text.length === 0) return null;
-          try {
-            return JSON.parse(text) as unknown;
-          } catch {
-            const error = new BobError("bob_invalid_json", "QubicBob response was not valid JSON", {
-              url: url.toString(),
-              method,
-              status: res.status,
-              statusText: res.statusText,
-              bodyText: text || undefined,
-            });
-            config.onError?.(error);
-            throw error;
-          }
-        } catch (error) {
-          if (error instanceof BobError) throw error;
-          const wrapped = new BobError(
-            "bob_fetch_error",
-            "QubicBob fetch failed",
-            {
-              url: url.toString(),
-              method,
-            },
-            error,
-          );
-          config.onError?.(wrapped);
-          throw wrapped;
-        }
+      config.onError?.(wrapped);
+      throw wrapped;
+    } finally {
+      request.cleanup();
+      release?.();
+    }
+  };
+
+  const execute = async (
+    method: string,
+    url: URL,
+    options: RequestOptions = {},
+    body: unknown,
+    handle: (res: Response, text: string) => unknown,
+  ): Promise<unknown> => {
+    const signal = options.signal;
+    try {
+      return await withRetry(
+        retryConfig,
+        method,
+        () =>
+          config.circuitBreaker
+            ? config.circuitBreaker.run(
+                breakerKey,
+                () => send(method, url, options, body, handle),
+                isBobOutage,
+              )
+            : send(method, url, options, body, handle),
+        (error) => shouldRetryBob(error, retryConfig),
+        {
+          signal,
+          retryAfterMs: (error) =>
+            error instanceof BobError ? error.details.retryAfterMs : undefined,
+        },
+      );
+    } catch (error) {
+      // Aborting while a retry is pending surfaces the abort, not the last failure.
+      if (signal?.aborted && !(error instanceof BobError && error.code === "bob_aborted")) {
+        throw abortedError(url, method, error);
+      }
+      throw error;
+    }
+  };
+
+  const failed = (url: URL, method: string, res: Response, text: string): BobError => {
+    const error = new BobError(
+      "bob_request_failed",
+      `QubicBob request failed: ${res.status} ${res.statusText}`,
+      {
+        url: url.toString(),
+        method,
+        status: res.status,
+        statusText: res.statusText,
+        bodyText: text || undefined,
+        retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
       },
-      (error) => shouldRetryBob(error, retryConfig),
     );
+    config.onError?.(error);
+    return error;
+  };
+
+  const parseJson = (url: URL, method: string, res: Response, text: string): unknown => {
+    if (text.length === 0) return null;
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      const error = new BobError("bob_invalid_json", "QubicBob response was not valid JSON", {
+        url: url.toString(),
+        method,
+        status: res.status,
+        statusText: res.statusText,
+        bodyText: text || undefined,
+      });
+      config.onError?.(error);
+      throw error;
+    }
+  };
+
+  const requestJson = async (
+    method: string,
+    url: URL,
+    options?: RequestOptions,
+    body?: unknown,
+  ): Promise<unknown> => {
+    return execute(method, url, options, body, (res, text) => {
+      if (!res.ok) throw failed(url, method, res, text);
+      return parseJson(url, method, res, text);
+    });
+  };
+
+  const requestParsed = async <T>(
+    method: string,
+    url: URL,
+    parse: (json: unknown) => T,
+    options?: RequestOptions,
+    body?: unknown,
+  ): Promise<T> => {
+    const json = await requestJson(method, url, options, body);
+    try {
+      return parse(json);
+    } catch (error) {
+      if (!(error instanceof BobResponseShapeError)) throw error;
+      const wrapped = new BobError(
+        "bob_invalid_response",
+        error.message,
+        { url: url.toString(), method, path: error.path },
+        error,
+      );
+      config.onError?.(wrapped);
+      throw wrapped;
+    }
   };
 
-  return {
-    async status(): Promise<unknown> {
+  const client: BobClient<D> = {
+    async status(options?: RequestOptions): Promise<BobStatus> {
       const url = new URL("status", base);
-      return requestJson("GET", url);
+      return requestParsed("GET", url, parseBobStatus, options);
     },
 
-    async balance(identity: string): Promise<unknown> {
+    async balance(identity: string, options?: RequestOptions): Promise<BobBalance> {
       const url = new URL(`balance/${encodeURIComponent(identity)}`, base);
-      return requestJson("GET", url);
+      return requestParsed("GET", url, (json) => parseBobBalance(json, identity), options);
     },
 
-    async asset(input): Promise<unknown> {
+    async asset(input, options?: RequestOptions): Promise<BobAssetBalance> {
       const url = new URL(
         `asset/${encodeURIComponent(input.identity)}/${encodeURIComponent(
           input.issuer,
         )}/${encodeURIComponent(input.assetName)}/${input.manageSCIndex}`,
         base,
       );
-      return requestJson("GET", url);
+      return requestParsed("GET", url, parseBobAssetBalance, options);
     },
 
-    async epochInfo(epoch: number): Promise<unknown> {
+    async epochInfo(epoch: number, options?: RequestOptions): Promise<BobEpochInfo> {
       const url = new URL(`epochinfo/${epoch}`, base);
-      return requestJson("GET", url);
+      return requestParsed("GET", url, (json) => parseBobEpochInfo(json, epoch), options);
     },
 
-    async tx(hash: string): Promise<unknown> {
+    async tx(hash: string, options?: RequestOptions): Promise<BobTransaction> {
       const url = new URL(`tx/${encodeURIComponent(hash)}`, base);
-      return requestJson("GET", url);
+      return requestParsed("GET", url, parseBobTransaction, options);
     },
 
-    async logRange(input): Promise<unknown> {
+    async logRange(input, options?: RequestOptions): Promise<readonly BobLogEvent<D>[]> {
       const url = new URL(`log/${input.epoch}/${input.fromId}/${input.toId}`, base);
-      return requestJson("GET", url);
+      return requestParsed(
+        "GET",
+        url,
+        (json) => decodeBobLogs(parseBobLogList(json, "logRange"), config.logDecoder),
+        options,
+      );
     },
 
-    async tick(tickNumber: number): Promise<unknown> {
+    async tick(tickNumber: number, options?: RequestOptions): Promise<BobTickData> {
       const url = new URL(`tick/${tickNumber}`, base);
-      return requestJson("GET", url);
+      return requestParsed("GET", url, (json) => parseBobTickData(json, tickNumber), options);
     },
 
-    async findLog(input): Promise<unknown> {
+    async findLog(input, options?: RequestOptions): Promise<readonly number[]> {
       const url = new URL("findLog", base);
-      return requestJson("POST", url, input);
+      return requestParsed("POST", url, (json) => parseBobLogIds(json, "findLog"), options, input);
     },
 
-    async getLogCustom(input): Promise<unknown> {
+    async getLogCustom(input, options?: RequestOptions): Promise<readonly BobLogEvent<D>[]> {
       const url = new URL("getlogcustom", base);
-      return requestJson("POST", url, input);
+      return requestParsed(
+        "POST",
+        url,
+        (json) => decodeBobLogs(parseBobLogList(json, "getLogCustom"), config.logDecoder),
+        options,
+        input,
+      );
     },
 
     async querySmartContract(
       input: BobQuerySmartContractInput,
+      options?: RequestOptions,
     ): Promise<BobQuerySmartContractResult> {
       const nonce = input.nonce ?? randomUint32();
       const dataHex = input.dataHex ?? (input.dataBytes ? toHex(input.dataBytes) : "");
       const url = new URL("querySmartContract", base);
-
-      const headers: Record<string, string> = {
-        accept: "application/json",
-        "content-type": "application/json",
-        ...config.headers,
-      };
-      const bodyText = JSON.stringify({
+      const body = {
         nonce,
         scIndex: input.scIndex,
         funcNumber: input.funcNumber,
         data: dataHex,
-      });
-
-      return withRetry(
-        retryConfig,
-        "POST",
-        async () => {
-          const start = Date.now();
-          config.onRequest?.({ url: url.toString(), method: "POST", body: JSON.parse(bodyText) });
-          const res = await doFetch(url, { method: "POST", headers, body: bodyText });
-          config.onResponse?.({
-            url: url.toString(),
-            method: "POST",
-            status: res.status,
-            ok: res.ok,
-            durationMs: Date.now() - start,
-          });
-          const text = await res.text();
-          let json: unknown = null;
-          if (text.length) {
-            try {
-              json = JSON.parse(text) as unknown;
-            } catch {
-              const error = new BobError(
-                "bob_invalid_json",
-                "QubicBob response was not valid JSON",
-                {
-                  url: url.toString(),
-                  method: "POST",
-                  status: res.status,
-                  statusText: res.statusText,
-                  bodyText: text || undefined,
-                },
-              );
-              config.onError?.(error);
-              throw error;
-            }
-          }
-
-          if (res.status === 202) {
-            const obj = expectObject(json);
-            return {
-              nonce,
-              pending: true,
-              message: typeof obj.message === "string" ? obj.message : "pending",
-            };
-          }
-
-          if (!res.ok) {
-            const error = new BobError(
-              "bob_request_failed",
-              `QubicBob request failed: ${res.status} ${res.statusText}`,
-              {
-                url: url.toString(),
-                method: "POST",
-                status: res.status,
-                statusText: res.statusText,
-                bodyText: text || undefined,
-              },
-            );
-            config.onError?.(error);
-            throw error;
-          }
+      };
 
+      const result = await execute("POST", url, options, body, (res, text) => {
+        const json = parseJson(url, "POST", res, text);
+        if (res.status === 202) {
           const obj = expectObject(json);
           return {
             nonce,
-            pending: false,
-            dataHex: typeof obj.data === "string" ? obj.data : undefined,
+            pending: true,
+            message: typeof obj.message === "string" ? obj.message : "pending",
           };
-        },
-        (error) => shouldRetryBob(error, retryConfig),
-      );
+        }
+        if (!res.ok) throw failed(url, "POST", res, text);
+        const obj = expectObject(json);
+        return {
+          nonce,
+          pending: false,
+          dataHex: typeof obj.data === "string" ? obj.data : undefined,
+        };
+      });
+      return result as BobQuerySmartContractResult;
     },
 
-    async broadcastTransaction(input): Promise<unknown> {
+    async broadcastTransaction(input, options?: RequestOptions): Promise<BobBroadcastResult> {
       const dataHex = input.dataHex ?? (input.dataBytes ? toHex(input.dataBytes) : "");
       if (!dataHex) throw new TypeError("broadcastTransaction requires dataHex or dataBytes");
       const url = new URL("broadcastTransaction", base);
-      return requestJson("POST", url, { data: dataHex });
+      return requestParsed("POST", url, parseBobBroadcastResult, options, { data: dataHex });
     },
 
-    async getQuTransfersForIdentity(input): Promise<unknown> {
+    async getQuTransfersForIdentity(
+      input,
+      options?: RequestOptions,
+    ): Promise<readonly BobLogEvent<D>[]> {
       const url = new URL("getQuTransfersForIdentity", base);
-      return requestJson("POST", url, input);
+      return requestParsed(
+        "POST",
+        url,
+        (json) => decodeBobLogs(parseBobLogList(json, "transfers"), config.logDecoder),
+        options,
+        input,
+      );
     },
 
-    async getAssetTransfersForIdentity(input): Promise<unknown> {
+    async getAssetTransfersForIdentity(
+      input,
+      options?: RequestOptions,
+    ): Promise<readonly BobLogEvent<D>[]> {
       const url = new URL("getAssetTransfersForIdentity", base);
-      return requestJson("POST", url, input);
+      return requestParsed(
+        "POST",
+        url,
+        (json) => decodeBobLogs(parseBobLogList(json, "transfers"), config.logDecoder),
+        options,
+        input,
+      );
     },
 
-    async getAllAssetTransfers(input): Promise<unknown> {
+    async getAllAssetTransfers(
+      input,
+      options?: RequestOptions,
+    ): Promise<readonly BobLogEvent<D>[]> {
       const url = new URL("getAllAssetTransfers", base);
-      return requestJson("POST", url, input);
+      return requestParsed(
+        "POST",
+        url,
+        (json) => decodeBobLogs(parseBobLogList(json, "transfers"), config.logDecoder),
+        options,
+        input,
+      );
+    },
+
+    async *logRangePages(input, options?: RequestOptions) {
+      yield* walkWindows(
+        input.fromId,
+        input.toId,
+        input,
+        (fromId, toId) => client.logRange({ epoch: input.epoch, fromId, toId }, options),
+        isOversizedResponse,
+      );
+    },
+
+    async *getQuTransfersForIdentityPages(input, options?: RequestOptions) {
+      yield* walkWindows(
+        input.fromTick,
+        input.toTick,
+        input,
+        (fromTick, toTick) =>
+          client.getQuTransfersForIdentity({ fromTick, toTick, identity: input.identity }, options),
+        isOversizedResponse,
+      );
+    },
+
+    async *getAssetTransfersForIdentityPages(input, options?: RequestOptions) {
+      yield* walkWindows(
+        input.fromTick,
+        input.toTick,
+        input,
+        (fromTick, toTick) =>
+          client.getAssetTransfersForIdentity(
+            {
+              fromTick,
+              toTick,
+              identity: input.identity,
+              assetIssuer: input.assetIssuer,
+              assetName: input.assetName,
+            },
+            options,
+          ),
+        isOversizedResponse,
+      );
+    },
+
+    async *getAllAssetTransfersPages(input, options?: RequestOptions) {
+      yield* walkWindows(
+        input.fromTick,
+        input.toTick,
+        input,
+        (fromTick, toTick) =>
+          client.getAllAssetTransfers(
+            { fromTick, toTick, assetIssuer: input.assetIssuer, assetName: input.assetName },
+            options,
+          ),
+        isOversizedResponse,
+      );
     },
   };
+  return client;
 }
 
 function ensureTrailingSlash(value: string): string {
@@ -385,9 +633,30 @@ function randomUint32(): number {
   return Math.floor(Math.random() * 0xffff_ffff);
 }
 
+function abortedError(url: URL, method: string, cause: unknown): BobError {
+  return new BobError(
+    "bob_aborted",
+    "QubicBob request aborted",
+    { url: url.toString(), method },
+    cause,
+  );
+}
+
+function isOversizedResponse(error: unknown): boolean {
+  return error instanceof BobError && error.details.status === 413;
+}
+
+/** Failures that say the node is unavailable, as opposed to a bad request. */
+function isBobOutage(error: unknown): boolean {
+  if (!(error instanceof BobError)) return false;
+  if (error.code === "bob_fetch_error" || error.code === "bob_timeout") return true;
+  const status = error.details.status;
+  return typeof status === "number" && (status === 408 || status >= 500);
+}
+
 function shouldRetryBob(error: unknown, config: ReturnType<typeof normalizeRetryConfig>): boolean {
   if (!(error instanceof BobError)) return false;
-  if (error.code === "bob_fetch_error") return true;
+  if (error.code === "bob_fetch_error" || error.code === "bob_timeout") return true;
   const status = error.details.status;
   return typeof status === "number" && config.retryOnStatuses.includes(status);
 }
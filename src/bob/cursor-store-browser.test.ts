@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createIndexedDbLogCursorStore,
+  createLocalStorageLogCursorStore,
+  type IdbDatabaseLike,
+  type IdbOpenRequestLike,
+  type IdbRequestLike,
+  type IdbTransactionLike,
+  type IndexedDbFactoryLike,
+} from "./cursor-store-browser.js";
+
+describe("browser log cursor stores", () => {
+  it("stores cursors in localStorage under a prefix", async () => {
+    const storage = new MemoryStorage();
+    const store = createLocalStorageLogCursorStore({ prefix: "app", storage });
+    expect(await store.get("1:0")).toBeUndefined();
+
+    await store.set("1:0", { lastLogId: 4 });
+    expect(storage.getItem("app:1:0")).toBe(JSON.stringify({ lastLogId: 4 }));
+    expect(await store.get("1:0")).toEqual({ lastLogId: 4, lastTick: undefined });
+  });
+
+  it("stores cursors in IndexedDB and resolves after the transaction completes", async () => {
+    const factory = createFakeIndexedDb();
+    const store = createIndexedDbLogCursorStore({ indexedDB: factory });
+    expect(await store.get("1:0")).toBeUndefined();
+
+    await store.set("1:0", { lastTick: 12 });
+    const reopened = createIndexedDbLogCursorStore({ indexedDB: factory });
+    expect(await reopened.get("1:0")).toEqual({ lastTick: 12, lastLogId: undefined });
+  });
+});
+
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+/** Just enough IndexedDB to exercise the store; callbacks fire on a later tick like the real API. */
+function createFakeIndexedDb(): IndexedDbFactoryLike {
+  const stores = new Map<string, Map<string, unknown>>();
+  const request = <T>(result: () => T): IdbRequestLike<T> => {
+    const req: IdbRequestLike<T> & { result: T } = {
+      result: undefined as T,
+      error: null,
+      onsuccess: null,
+      onerror: null,
+    };
+    setTimeout(() => {
+      req.result = result();
+      req.onsuccess?.();
+    }, 0);
+    return req;
+  };
+  const db: IdbDatabaseLike = {
+    objectStoreNames: { contains: (name) => stores.has(name) },
+    createObjectStore: (name) => stores.set(name, new Map()),
+    transaction(storeName) {
+      const tx: IdbTransactionLike = {
+        error: null,
+        oncomplete: null,
+        onerror: null,
+        onabort: null,
+        objectStore: () => ({
+          get: (key) => request(() => stores.get(storeName)?.get(key)),
+          put: (value, key) => request(() => stores.get(storeName)?.set(key, value)),
+        }),
+      };
+      setTimeout(() => tx.oncomplete?.(), 1);
+      return tx;
+    },
+  };
+  return {
+    open() {
+      const req: IdbOpenRequestLike & { result: IdbDatabaseLike } = {
+        result: db,
+        error: null,
+        onsuccess: null,
+        onerror: null,
+        onupgradeneeded: null,
+      };
+      setTimeout(() => {
+        if (stores.size === 0) req.onupgradeneeded?.();
+        req.onsuccess?.();
+      }, 0);
+      return req;
+    },
+  };
+}
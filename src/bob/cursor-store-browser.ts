@@ -0,0 +1,151 @@
+import type { LogCursor, LogCursorStore } from "./log-stream.js";
+
+export type LocalStorageLogCursorStoreOptions = Readonly<{
+  /** Prefix for the per-subscription keys (default: `qubic.logCursor`). */
+  prefix?: string;
+  storage?: Storage;
+}>;
+
+/** Stores each cursor under `<prefix>:<scIndex>:<logType>`; `setItem` is synchronous. */
+export function createLocalStorageLogCursorStore(
+  options: LocalStorageLogCursorStoreOptions = {},
+): LogCursorStore {
+  const storage = options.storage ?? getDefaultStorage();
+  if (!storage) {
+    throw new Error("localStorage is not available in this environment");
+  }
+  const prefix = options.prefix ?? "qubic.logCursor";
+
+  return {
+    get(key) {
+      const raw = storage.getItem(`${prefix}:${key}`);
+      return raw === null ? undefined : toCursor(JSON.parse(raw));
+    },
+    set(key, cursor) {
+      storage.setItem(
+        `${prefix}:${key}`,
+        JSON.stringify({ lastTick: cursor.lastTick, lastLogId: cursor.lastLogId }),
+      );
+    },
+  };
+}
+
+/** The subset of the IndexedDB API the store uses, so it can run against a shim. */
+export type IndexedDbFactoryLike = Readonly<{
+  open(name: string, version?: number): IdbOpenRequestLike;
+}>;
+
+export type IndexedDbLogCursorStoreOptions = Readonly<{
+  /** Database name (default: `qubic-log-cursors`). */
+  databaseName?: string;
+  /** Object store name (default: `cursors`). */
+  storeName?: string;
+  indexedDB?: IndexedDbFactoryLike;
+}>;
+
+/**
+ * Stores cursors in an IndexedDB object store. `set` resolves once the readwrite transaction
+ * has completed, i.e. after the browser reports the cursor as committed.
+ */
+export function createIndexedDbLogCursorStore(
+  options: IndexedDbLogCursorStoreOptions = {},
+): LogCursorStore {
+  const factory = options.indexedDB ?? getDefaultIndexedDb();
+  if (!factory) {
+    throw new Error("indexedDB is not available in this environment");
+  }
+  const databaseName = options.databaseName ?? "qubic-log-cursors";
+  const storeName = options.storeName ?? "cursors";
+  let opening: Promise<IdbDatabaseLike> | undefined;
+
+  const openDb = () => {
+    opening ??= new Promise<IdbDatabaseLike>((resolve, reject) => {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      opening = undefined;
+      throw error;
+    });
+    return opening;
+  };
+
+  return {
+    async get(key) {
+      const db = await openDb();
+      const request = db.transaction(storeName, "readonly").objectStore(storeName).get(key);
+      const value = await new Promise<unknown>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      return value === undefined ? undefined : toCursor(value);
+    },
+    async set(key, cursor) {
+      const db = await openDb();
+      const tx = db.transaction(storeName, "readwrite");
+      tx.objectStore(storeName).put(
+        { lastTick: cursor.lastTick, lastLogId: cursor.lastLogId },
+        key,
+      );
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    },
+  };
+}
+
+export type IdbRequestLike<T> = {
+  readonly result: T;
+  readonly error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+};
+
+export type IdbOpenRequestLike = IdbRequestLike<IdbDatabaseLike> & {
+  onupgradeneeded: (() => void) | null;
+};
+
+export type IdbDatabaseLike = Readonly<{
+  objectStoreNames: Readonly<{ contains(name: string): boolean }>;
+  createObjectStore(name: string): unknown;
+  transaction(storeName: string, mode: "readonly" | "readwrite"): IdbTransactionLike;
+}>;
+
+export type IdbTransactionLike = {
+  readonly error: unknown;
+  objectStore(name: string): IdbObjectStoreLike;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+};
+
+export type IdbObjectStoreLike = Readonly<{
+  get(key: string): IdbRequestLike<unknown>;
+  put(value: unknown, key: string): IdbRequestLike<unknown>;
+}>;
+
+function toCursor(value: unknown): LogCursor | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { lastTick, lastLogId } = value as Record<string, unknown>;
+  return {
+    lastTick: typeof lastTick === "number" ? lastTick : undefined,
+    lastLogId: typeof lastLogId === "number" ? lastLogId : undefined,
+  };
+}
+
+function getDefaultStorage(): Storage | undefined {
+  const anyGlobal = globalThis as typeof globalThis & { localStorage?: Storage };
+  return anyGlobal.localStorage;
+}
+
+function getDefaultIndexedDb(): IndexedDbFactoryLike | undefined {
+  const anyGlobal = globalThis as typeof globalThis & { indexedDB?: IndexedDbFactoryLike };
+  return anyGlobal.indexedDB;
+}
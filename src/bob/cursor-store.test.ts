@@ -0,0 +1,66 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createFileLogCursorStore,
+  createSqliteLogCursorStore,
+  LogCursorStoreError,
+} from "./cursor-store.js";
+
+let currentDir: string | undefined;
+
+afterEach(async () => {
+  if (currentDir) {
+    await rm(currentDir, { recursive: true, force: true });
+    currentDir = undefined;
+  }
+});
+
+describe("log cursor stores", () => {
+  it("persists cursors to a file and reloads them", async () => {
+    currentDir = await mkdtemp(join(tmpdir(), "qubic-cursors-"));
+    const path = join(currentDir, "cursors.json");
+
+    const store = createFileLogCursorStore(path);
+    expect(await store.get("1:0")).toBeUndefined();
+    await Promise.all([
+      store.set("1:0", { lastLogId: 5 }),
+      store.set("1:0", { lastLogId: 6 }),
+      store.set("2:3", { lastTick: 100 }),
+    ]);
+
+    const reopened = createFileLogCursorStore(path);
+    expect(await reopened.get("1:0")).toEqual({ lastLogId: 6 });
+    expect(await reopened.get("2:3")).toEqual({ lastTick: 100 });
+    expect(JSON.parse(await readFile(path, "utf8")).version).toBe(1);
+  });
+
+  it("rejects a corrupt cursor file", async () => {
+    currentDir = await mkdtemp(join(tmpdir(), "qubic-cursors-"));
+    const path = join(currentDir, "cursors.json");
+    await writeFile(path, "{not json", "utf8");
+
+    const error = await Promise.resolve(createFileLogCursorStore(path).get("1:0")).catch(
+      (err: unknown) => err,
+    );
+    expect(error).toBeInstanceOf(LogCursorStoreError);
+  });
+
+  it("upserts cursors into a SQLite table", async () => {
+    const db = new Database(":memory:");
+    const store = createSqliteLogCursorStore(db, { table: "cursors" });
+    expect(await store.get("1:0")).toBeUndefined();
+
+    await store.set("1:0", { lastLogId: 5 });
+    await store.set("1:0", { lastLogId: 9 });
+    await store.set("2:0", { lastTick: 77 });
+
+    const reopened = createSqliteLogCursorStore(db, { table: "cursors" });
+    expect(await reopened.get("1:0")).toEqual({ lastLogId: 9, lastTick: undefined });
+    expect(await reopened.get("2:0")).toEqual({ lastTick: 77, lastLogId: undefined });
+    expect(() => createSqliteLogCursorStore(db, { table: "bad name" })).toThrow(RangeError);
+    db.close();
+  });
+});
@@ -0,0 +1,108 @@
+import { readFile } from "node:fs/promises";
+import { SdkError } from "../errors.js";
+import { isNotFoundError, type SqliteDatabaseLike, writeFileAtomic } from "../storage.js";
+import type { LogCursor, LogCursorStore } from "./log-stream.js";
+
+export class LogCursorStoreError extends SdkError {
+  override name = "LogCursorStoreError";
+
+  constructor(message: string, cause?: unknown) {
+    super("log_cursor_store_invalid", message, undefined, cause);
+  }
+}
+
+/**
+ * Keeps every cursor in one JSON file. Each `set` rewrites the file through a temporary file
+ * that is fsynced and renamed over the original, so a crash leaves either the old or the new
+ * cursors on disk, never a torn file.
+ */
+export function createFileLogCursorStore(path: string): LogCursorStore {
+  let loading: Promise<Record<string, LogCursor>> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    loading ??= readCursorFile(path).catch((error: unknown) => {
+      loading = undefined;
+      throw error;
+    });
+    return loading;
+  };
+
+  return {
+    async get(key) {
+      return (await load())[key];
+    },
+    async set(key, cursor) {
+      const cursors = await load();
+      cursors[key] = { lastTick: cursor.lastTick, lastLogId: cursor.lastLogId };
+      const text = JSON.stringify({ version: 1, cursors }, null, 2);
+      // Writes share one temporary file, so they must not overlap.
+      const write = writing.then(() => writeFileAtomic(path, text));
+      writing = write.catch(() => {});
+      return write;
+    },
+  };
+}
+
+export type SqliteLogCursorStoreOptions = Readonly<{
+  /** Table holding one row per subscription (default: `log_cursors`). */
+  table?: string;
+}>;
+
+/** Stores cursors in a SQLite table, creating it if needed. Each `set` is a single upsert. */
+export function createSqliteLogCursorStore(
+  db: SqliteDatabaseLike,
+  options: SqliteLogCursorStoreOptions = {},
+): LogCursorStore {
+  const table = options.table ?? "log_cursors";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new RangeError(`Invalid SQLite table name: ${table}`);
+  }
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, last_tick INTEGER, last_log_id INTEGER, updated_at INTEGER NOT NULL)`,
+  );
+  const select = db.prepare(`SELECT last_tick, last_log_id FROM ${table} WHERE key = ?`);
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (key, last_tick, last_log_id, updated_at) VALUES (?, ?, ?, ?) ` +
+      "ON CONFLICT(key) DO UPDATE SET last_tick = excluded.last_tick, " +
+      "last_log_id = excluded.last_log_id, updated_at = excluded.updated_at",
+  );
+
+  return {
+    get(key) {
+      const row = select.get(key) as
+        | { last_tick: number | bigint | null; last_log_id: number | bigint | null }
+        | null
+        | undefined;
+      if (!row) return undefined;
+      return {
+        lastTick: row.last_tick === null ? undefined : Number(row.last_tick),
+        lastLogId: row.last_log_id === null ? undefined : Number(row.last_log_id),
+      };
+    },
+    set(key, cursor) {
+      upsert.run(key, cursor.lastTick ?? null, cursor.lastLogId ?? null, Date.now());
+    },
+  };
+}
+
+async function readCursorFile(path: string): Promise<Record<string, LogCursor>> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if (isNotFoundError(error)) return {};
+    throw error;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new LogCursorStoreError(`Invalid log cursor file: ${path}`, error);
+  }
+  const cursors = (parsed as { cursors?: unknown } | null)?.cursors;
+  if (!cursors || typeof cursors !== "object" || Array.isArray(cursors)) {
+    throw new LogCursorStoreError(`Invalid log cursor file: ${path}`);
+  }
+  return { ...(cursors as Record<string, LogCursor>) };
+}
@@ -19,8 +19,15 @@ class FakeWebSocket implements WebSocketLike {
     this.sent.push(data);
   }
 
-  close() {
-    this.onclose?.({});
+  close(code?: number, reason?: string) {
+    this.closed = { code, reason };
+    this.onclose?.({ code, reason });
+  }
+
+  closed: { code?: number; reason?: string } | undefined;
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
   }
 
   open() {
@@ -52,4 +59,435 @@ describe("log stream", () => {
     expect(sent[0]?.subscriptions?.length).toBe(2);
     expect(stream.socket).toBe(socket);
   });
+
+  it("reconnects and resubscribes from the latest cursor without replaying logs", async () => {
+    FakeWebSocket.instances = [];
+    const logs: number[] = [];
+    const reconnecting: number[] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      subscriptions: [{ scIndex: 1, logType: 0 }],
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      reconnect: { initialDelayMs: 1, jitterMs: 0 },
+      onReconnecting: ({ attempt }) => reconnecting.push(attempt),
+      onLog: (msg) => logs.push((msg.message as { logId: number }).logId),
+    });
+
+    const first = FakeWebSocket.instances[0];
+    if (!first) throw new Error("Missing test WebSocket instance");
+    first.open();
+    first.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 41 } });
+    first.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 42 } });
+    first.close(1006);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const second = FakeWebSocket.instances[1];
+    if (!second) throw new Error("Missing reconnected WebSocket instance");
+    expect(stream.socket).toBe(second);
+    expect(reconnecting).toEqual([1]);
+    second.open();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(second.sent.map((m) => JSON.parse(m))).toEqual([
+      { action: "subscribe", scIndex: 1, logType: 0, lastLogId: 42 },
+    ]);
+
+    second.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 42 } });
+    second.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 43 } });
+    expect(logs).toEqual([41, 42, 43]);
+
+    stream.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(FakeWebSocket.instances.length).toBe(2);
+  });
+
+  it("delivers logs from a new epoch whose ids restart below the previous epoch", () => {
+    FakeWebSocket.instances = [];
+    const logs: number[] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      subscriptions: [{ scIndex: 1, logType: 0 }],
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      onLog: (msg) => logs.push((msg.message as { logId: number }).logId),
+    });
+
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 9000, epoch: 150 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 1, epoch: 151 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 2, epoch: 151 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 9001, epoch: 150 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 2, epoch: 151 } });
+    expect(logs).toEqual([9000, 1, 2]);
+    stream.close();
+  });
+
+  it("closes a silent socket when the heartbeat pong does not arrive", async () => {
+    FakeWebSocket.instances = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      heartbeat: { intervalMs: 5, timeoutMs: 5 },
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(socket.sent.map((m) => JSON.parse(m).action)).toContain("ping");
+    expect(socket.closed?.code).toBe(4000);
+    stream.close();
+  });
+
+  it("iterates matching logs and stores cursors only after each is processed", async () => {
+    FakeWebSocket.instances = [];
+    const stored: [string, unknown][] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      cursorStore: {
+        get: () => undefined,
+        set: (key, cursor) => {
+          stored.push([key, cursor]);
+        },
+      },
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+
+    const iterator = stream.logs({ scIndex: 1 });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 1 } });
+    socket.receive({ type: "log", scIndex: 2, logType: 0, message: { logId: 2 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 3 } });
+    // scIndex 2 has no consumer, so its cursor is stored right away.
+    expect(stored).toEqual([["2:0", { lastLogId: 2 }]]);
+
+    const first = await iterator.next();
+    expect(first.value?.message).toEqual({ logId: 1 });
+    expect(stored.length).toBe(1);
+
+    const second = await iterator.next();
+    expect(second.value?.message).toEqual({ logId: 3 });
+    expect(stored.at(-1)).toEqual(["1:0", { lastLogId: 1 }]);
+
+    const ended = iterator.next();
+    stream.close();
+    await expect(ended).resolves.toEqual({ done: true, value: undefined });
+    expect(stored.at(-1)).toEqual(["1:0", { lastLogId: 3 }]);
+  });
+
+  it("subscribes without a cursor when the cursor store cannot be read", async () => {
+    FakeWebSocket.instances = [];
+    const errors: [string, unknown][] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      subscriptions: [{ scIndex: 1, logType: 0 }],
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      cursorStore: {
+        get: () => Promise.reject(new Error("corrupt")),
+        set: () => {},
+      },
+      onCursorStoreError: (error, key) => errors.push([key, (error as Error).message]),
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(errors).toEqual([["1:0", "corrupt"]]);
+    expect(socket.sent.map((m) => JSON.parse(m))).toEqual([
+      { action: "subscribe", scIndex: 1, logType: 0 },
+    ]);
+    stream.close();
+  });
+
+  it("attaches and detaches listeners after creation", () => {
+    FakeWebSocket.instances = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+
+    const seen: unknown[] = [];
+    const pongs: unknown[] = [];
+    const detach = stream.onLog({ scIndex: 1, logType: 5 }, (msg) => seen.push(msg.message));
+    stream.on("pong", (msg) => pongs.push(msg));
+
+    socket.receive({ type: "log", scIndex: 1, logType: 5, message: { logId: 1 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 6, message: { logId: 2 } });
+    socket.receive({ type: "pong" });
+    detach();
+    socket.receive({ type: "log", scIndex: 1, logType: 5, message: { logId: 3 } });
+
+    expect(seen).toEqual([{ logId: 1 }]);
+    expect(pongs).toEqual([{ type: "pong" }]);
+  });
+
+  it("keeps calling listeners after one throws and reports it as a log error", async () => {
+    FakeWebSocket.instances = [];
+    const errors: unknown[] = [];
+    const seen: number[] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      onLog: () => {
+        throw new Error("handler");
+      },
+      onLogError: (error) => errors.push((error as Error).message),
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+    stream.on("log", () => {
+      throw new Error("listener");
+    });
+    stream.on("log", (msg) => seen.push((msg.message as { logId: number }).logId));
+
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 1 } });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(seen).toEqual([1]);
+    expect(errors).toEqual(["handler", "listener"]);
+    stream.close();
+  });
+
+  it("attaches decoded events from the log decoder", async () => {
+    FakeWebSocket.instances = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      logDecoder: {
+        decode: (log) => {
+          if (log.logType === 9) throw new Error("bad body");
+          return log.scIndex === 1 ? { amount: log.body.amount as string } : undefined;
+        },
+      },
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+
+    const decoded: unknown[] = [];
+    stream.onLog({}, (msg) => decoded.push(msg.decoded?.amount));
+    const iterator = stream.logs({ scIndex: 1 });
+
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 1, amount: "7" } });
+    socket.receive({ type: "log", scIndex: 2, logType: 0, message: { logId: 2 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 9, message: { logId: 3 } });
+
+    expect(decoded).toEqual(["7", undefined, undefined]);
+    const first = await iterator.next();
+    expect(first.value?.decoded).toEqual({ amount: "7" });
+    const second = await iterator.next();
+    expect(second.value?.decodeError).toBeInstanceOf(Error);
+    stream.close();
+  });
+
+  it("commits a cursor only after the async log handler resolves", async () => {
+    FakeWebSocket.instances = [];
+    const stored: unknown[] = [];
+    const failures: unknown[] = [];
+    const handlers: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      cursorStore: {
+        get: () => undefined,
+        set: async (key, cursor) => {
+          stored.push([key, cursor]);
+        },
+      },
+      onLog: () =>
+        new Promise<void>((resolve, reject) => {
+          handlers.push({ resolve, reject });
+        }),
+      onLogError: (error) => failures.push(error),
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 1 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 2 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 3 } });
+    expect(stored).toEqual([]);
+
+    // Out-of-order completion still commits in arrival order.
+    handlers[1]?.resolve();
+    await stream.flushCursors();
+    expect(stored).toEqual([]);
+    handlers[0]?.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await stream.flushCursors();
+    expect(stored.at(-1)).toEqual(["1:0", { lastLogId: 2 }]);
+
+    handlers[2]?.reject(new Error("handler failed"));
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 4 } });
+    handlers[3]?.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await stream.flushCursors();
+    expect(stored.at(-1)).toEqual(["1:0", { lastLogId: 2 }]);
+    expect(failures).toHaveLength(1);
+    stream.close();
+  });
+
+  it("redelivers a failed log after a reconnect and resumes committing", async () => {
+    FakeWebSocket.instances = [];
+    const stored: unknown[] = [];
+    const delivered: number[] = [];
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      subscriptions: [{ scIndex: 1, logType: 0 }],
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      reconnect: { initialDelayMs: 1, jitterMs: 0 },
+      cursorStore: {
+        get: () => undefined,
+        set: (key, cursor) => {
+          stored.push([key, cursor]);
+        },
+      },
+      onLog: async (msg) => {
+        const logId = (msg.message as { logId: number }).logId;
+        delivered.push(logId);
+        if (logId === 2 && delivered.length === 2) throw new Error("failed once");
+      },
+    });
+    const first = FakeWebSocket.instances[0];
+    if (!first) throw new Error("Missing test WebSocket instance");
+    first.open();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    for (const logId of [1, 2, 3]) {
+      first.receive({ type: "log", scIndex: 1, logType: 0, message: { logId } });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(stored).toEqual([["1:0", { lastLogId: 1 }]]);
+
+    first.close(1006);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const second = FakeWebSocket.instances[1];
+    if (!second) throw new Error("Missing reconnected WebSocket instance");
+    second.open();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(second.sent.map((m) => JSON.parse(m))).toEqual([
+      { action: "subscribe", scIndex: 1, logType: 0, lastLogId: 1 },
+    ]);
+
+    for (const logId of [1, 2, 3]) {
+      second.receive({ type: "log", scIndex: 1, logType: 0, message: { logId } });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await stream.flushCursors();
+    expect(delivered).toEqual([1, 2, 3, 2, 3]);
+    expect(stored.at(-1)).toEqual(["1:0", { lastLogId: 3 }]);
+    stream.close();
+  });
+
+  it("backfills skipped logs through Bob before delivering newer ones", async () => {
+    FakeWebSocket.instances = [];
+    const delivered: unknown[] = [];
+    const ranges: unknown[] = [];
+    let releaseFindLog: () => void = () => {};
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      backfill: {
+        epoch: 150,
+        check: "always",
+        bob: {
+          async findLog(input) {
+            ranges.push([input.fromTick, input.toTick]);
+            await new Promise<void>((resolve) => {
+              releaseFindLog = resolve;
+            });
+            return [12, 13, 14, 20];
+          },
+          async *logRangePages(input) {
+            ranges.push([input.epoch, input.fromId, input.toId]);
+            const items = [12, 13, 14].map((logId) => ({
+              tick: 100 + logId - 10,
+              logId,
+              logType: logId === 13 ? 1 : 0,
+              scIndex: 1,
+              raw: { logId, tick: 100 + logId - 10 },
+            }));
+            yield { from: input.fromId, to: input.toId, items, cursor: { next: input.toId + 1 } };
+          },
+        },
+      },
+      onLog: (msg) => {
+        delivered.push([(msg.message as { logId: number }).logId, msg.backfilled ?? false]);
+      },
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 10, tick: 100 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 15, tick: 105 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 16, tick: 105 } });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(delivered).toEqual([[10, false]]);
+
+    releaseFindLog();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(ranges).toEqual([
+      [100, 105],
+      [150, 12, 14],
+    ]);
+    expect(delivered).toEqual([
+      [10, false],
+      [12, true],
+      [14, true],
+      [15, false],
+      [16, false],
+    ]);
+    stream.close();
+  });
+
+  it("only checks for gaps after a subscribe by default and never leaves logs buffered", async () => {
+    FakeWebSocket.instances = [];
+    const delivered: number[] = [];
+    const backfillErrors: unknown[] = [];
+    let findLogCalls = 0;
+    const stream = createLogStream({
+      baseUrl: "http://example.test",
+      subscriptions: [{ scIndex: 1, logType: 0, lastLogId: 10 }],
+      webSocketFactory: (url) => new FakeWebSocket(url),
+      backfill: {
+        epoch: 150,
+        bob: {
+          async findLog() {
+            findLogCalls++;
+            return [];
+          },
+          async *logRangePages() {},
+        },
+      },
+      onBackfill: () => {
+        throw new Error("hook");
+      },
+      onBackfillError: (error) => backfillErrors.push((error as Error).message),
+      onLog: (msg) => {
+        delivered.push((msg.message as { logId: number }).logId);
+      },
+    });
+    const socket = FakeWebSocket.instances[0];
+    if (!socket) throw new Error("Missing test WebSocket instance");
+    socket.open();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 15, tick: 105 } });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 30, tick: 107 } });
+    socket.receive({ type: "log", scIndex: 1, logType: 0, message: { logId: 42, tick: 109 } });
+
+    expect(findLogCalls).toBe(0);
+    expect(backfillErrors).toEqual(["hook"]);
+    expect(delivered).toEqual([15, 30, 42]);
+    stream.close();
+  });
 });
@@ -1,3 +1,6 @@
+import type { BobClient } from "./client.js";
+import type { BobLogDecoder } from "./models.js";
+
 export type LogSubscription = Readonly<{
   scIndex: number;
   logType: number;
@@ -12,19 +15,82 @@ export type LogCursorStore = Readonly<{
   set(key: string, cursor: LogCursor): void | Promise<void>;
 }>;
 
-export type LogStreamHandlers = Readonly<{
+export type LogStreamHandlers<D = unknown> = Readonly<{
   onOpen?: () => void;
   onClose?: (event: CloseEventLike) => void;
   onError?: (event: EventLike) => void;
   onWelcome?: (message: Record<string, unknown>) => void;
   onAck?: (message: Record<string, unknown>) => void;
-  onLog?: (message: Record<string, unknown>) => void;
+  /**
+   * If this returns a promise, the log's cursor is only committed once it resolves; a
+   * rejection holds back the subscription's cursor so the log is replayed after a reconnect
+   * or restart.
+   */
+  onLog?: (message: LogMessage<D>) => unknown;
+  /** A log handler rejected; the subscription's cursor stops advancing. */
+  onLogError?: (error: unknown, message: LogMessage<D>) => void;
+  /**
+   * `cursorStore.set` failed; later commits still try to store newer cursors. A failed
+   * `cursorStore.get` reports an empty cursor and subscribes without one.
+   */
+  onCursorStoreError?: (error: unknown, key: string, cursor: LogCursor) => void;
+  /** Missing logs of a gap were fetched from QubicBob and delivered. */
+  onBackfill?: (info: LogBackfillInfo) => void;
+  /** A gap could not be backfilled; newer logs are delivered anyway. */
+  onBackfillError?: (error: unknown, gap: LogGap) => void;
   onCatchUpComplete?: (message: Record<string, unknown>) => void;
   onPong?: (message: Record<string, unknown>) => void;
   onServerError?: (message: Record<string, unknown>) => void;
 }>;
 
-export type LogStreamConfig = LogStreamHandlers &
+export type LogStreamReconnectConfig = Readonly<{
+  /** Delay before the first reconnect attempt (default: 500). */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay (default: 30_000). */
+  maxDelayMs?: number;
+  /** Backoff growth per failed attempt (default: 2). */
+  multiplier?: number;
+  /** Random extra delay added to every attempt (default: 250). */
+  jitterMs?: number;
+  /** Gives up after this many consecutive failed attempts (default: unlimited). */
+  maxAttempts?: number;
+}>;
+
+export type LogStreamHeartbeatConfig = Readonly<{
+  /** How often to send `ping` while connected (default: 15_000). */
+  intervalMs?: number;
+  /** Closes the socket when nothing arrives this long after a ping (default: 10_000). */
+  timeoutMs?: number;
+}>;
+
+export type LogGap = Readonly<{
+  scIndex: number;
+  logType: number;
+  epoch?: number;
+  /** Log ids after the last delivered log and before the one that revealed the gap. */
+  fromLogId?: number;
+  toLogId?: number;
+  /** Tick range to search when the log ids alone cannot locate the missing logs. */
+  fromTick?: number;
+  toTick?: number;
+}>;
+
+export type LogBackfillInfo = LogGap & Readonly<{ recovered: number }>;
+
+export type LogStreamBackfillConfig = Readonly<{
+  bob: Pick<BobClient, "findLog" | "logRangePages">;
+  /** Epoch for `logRange` when log messages do not carry one. */
+  epoch?: number | (() => number | Promise<number>);
+  /**
+   * `afterResubscribe` only checks the first log after each (re)subscribe; `always` checks
+   * every pair of consecutive logs of a subscription. Log ids are shared by every log of an
+   * epoch, so with `always` nearly every log looks like a gap and waits for a `findLog`
+   * round trip (default: `afterResubscribe`).
+   */
+  check?: "always" | "afterResubscribe";
+}>;
+
+export type LogStreamConfig<D = unknown> = LogStreamHandlers<D> &
   Readonly<{
     baseUrl: string;
     subscriptions?: readonly LogSubscription[];
@@ -33,25 +99,117 @@ export type LogStreamConfig = LogStreamHandlers &
     cursorStore?: LogCursorStore;
     webSocketFactory?: (url: string) => WebSocketLike;
     signal?: AbortSignal;
+    /**
+     * Reopens the socket with exponential backoff after it closes, then resubscribes every
+     * active subscription from its latest cursor (default: disabled).
+     */
+    reconnect?: boolean | LogStreamReconnectConfig;
+    /** Sends periodic pings and treats a silent socket as dead (default: disabled). */
+    heartbeat?: boolean | LogStreamHeartbeatConfig;
+    onReconnecting?: (info: Readonly<{ attempt: number; delayMs: number }>) => void;
+    /** Attaches `decoded` to every log it recognises, e.g. `createQbiLogDecoder`. */
+    logDecoder?: BobLogDecoder<D>;
+    /**
+     * Fetches logs skipped between consecutive messages of a subscription from QubicBob and
+     * delivers them, in order, before newer logs (default: disabled).
+     */
+    backfill?: LogStreamBackfillConfig;
   }>;
 
-export type LogStream = Readonly<{
-  socket: WebSocketLike;
+export type LogMessage<D = unknown> = Record<string, unknown> &
+  Readonly<{
+    /** Result of `logDecoder` for this log, if it recognised it. */
+    decoded?: D;
+    /** Set instead of `decoded` when `logDecoder` threw. */
+    decodeError?: unknown;
+  }>;
+
+export type LogStreamEvents<D = unknown> = {
+  open: () => void;
+  close: (event: CloseEventLike) => void;
+  error: (event: EventLike) => void;
+  welcome: (message: LogMessage) => void;
+  ack: (message: LogMessage) => void;
+  log: (message: LogMessage<D>) => unknown;
+  backfill: (info: LogBackfillInfo) => void;
+  backfillError: (error: unknown, gap: LogGap) => void;
+  logError: (error: unknown, message: LogMessage<D>) => void;
+  cursorStoreError: (error: unknown, key: string, cursor: LogCursor) => void;
+  catchUpComplete: (message: LogMessage) => void;
+  pong: (message: LogMessage) => void;
+  serverError: (message: LogMessage) => void;
+};
+
+export type LogStreamEvent = keyof LogStreamEvents;
+
+export type LogFilter = Readonly<{ scIndex?: number; logType?: number }>;
+
+export type LogIteratorOptions = Readonly<{
+  /** Ends the iteration when aborted. */
+  signal?: AbortSignal;
+}>;
+
+export type LogStream<D = unknown> = Readonly<{
+  /** The current socket; replaced on every reconnect. */
+  readonly socket: WebSocketLike;
+  /** Attaches a listener; returns a function that detaches it. */
+  on<E extends LogStreamEvent>(event: E, listener: LogStreamEvents<D>[E]): () => void;
+  /** Attaches a `log` listener for matching subscriptions; returns a function that detaches it. */
+  onLog(filter: LogFilter, listener: (message: LogMessage<D>) => unknown): () => void;
+  /**
+   * Yields matching logs in arrival order. A log's cursor is only stored once the consumer
+   * asks for the next item, so an interrupted loop resumes at the unprocessed log. Ends when
+   * the stream is closed; breaking out of the loop releases logs still buffered.
+   */
+  logs(filter?: LogFilter, options?: LogIteratorOptions): AsyncIterableIterator<LogMessage<D>>;
   subscribe(sub: LogSubscription): void;
   subscribeMany(subs: readonly LogSubscription[], cursor?: LogCursor): void;
   unsubscribe(sub: LogSubscription): void;
   unsubscribeAll(): void;
+  /** Resolves once every committed cursor has been written to `cursorStore`. */
+  flushCursors(): Promise<void>;
   ping(): void;
   close(code?: number, reason?: string): void;
 }>;
 
-export function createLogStream(config: LogStreamConfig): LogStream {
+export function createLogStream<D = unknown>(config: LogStreamConfig<D>): LogStream<D> {
   const wsUrl = toWebSocketUrl(config.baseUrl);
   const createSocket = config.webSocketFactory ?? defaultWebSocketFactory;
-  const socket = createSocket(wsUrl);
+  const reconnect =
+    config.reconnect === true ? {} : config.reconnect === false ? undefined : config.reconnect;
+  const heartbeat =
+    config.heartbeat === true ? {} : config.heartbeat === false ? undefined : config.heartbeat;
 
   const pending: string[] = [];
   let open = false;
+  let stopped = false;
+  let connectedOnce = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Subscriptions to replay after a reconnect, and the newest cursor seen for each.
+  const active = new Map<string, LogSubscription>();
+  const latest = new Map<string, LogCursor>();
+  for (const sub of config.subscriptions ?? []) {
+    active.set(cursorKey(sub.scIndex, sub.logType), sub);
+  }
+  const listeners = new Map<LogStreamEvent, Set<Listener>>();
+  const iterators = new Set<LogIteratorState>();
+  // Per-subscription cursors waiting for consumers, committed strictly in arrival order.
+  const commits = new Map<string, PendingCommit[]>();
+  // Subscriptions whose handler rejected: their cursor must not move past the failed log.
+  const blocked = new Set<string>();
+  // Last position whose log every consumer finished, per subscription.
+  const committed = new Map<string, Readonly<{ cursor: LogCursor; position: LogPosition }>>();
+  const unsaved = new Map<string, LogCursor>();
+  // Last delivered (or subscribed-from) position per subscription, for gap detection.
+  const positions = new Map<string, LogPosition>();
+  const resubscribed = new Set<string>();
+  // Logs held back while a subscription backfills, delivered afterwards in arrival order.
+  const backlogs = new Map<string, Record<string, unknown>[]>();
+  let saving: Promise<void> | undefined;
 
   const sendMessage = (message: Record<string, unknown>) => {
     const text = JSON.stringify(message);
@@ -62,51 +220,153 @@ export function createLogStream(config: LogStreamConfig): LogStream {
     socket.send(text);
   };
 
-  socket.onopen = () => {
-    open = true;
-    for (const text of pending.splice(0, pending.length)) socket.send(text);
-    config.onOpen?.();
-    if (config.subscriptions?.length) {
-      bootstrapSubscriptions(config.subscriptions);
-    }
+  const stopHeartbeat = () => {
+    if (pingTimer !== undefined) clearInterval(pingTimer);
+    if (pongTimer !== undefined) clearTimeout(pongTimer);
+    pingTimer = undefined;
+    pongTimer = undefined;
   };
 
-  socket.onmessage = (event) => {
-    const data = typeof event.data === "string" ? event.data : "";
-    let message: Record<string, unknown> | null = null;
-    try {
-      message = JSON.parse(data) as Record<string, unknown>;
-    } catch {
-      return;
-    }
-    if (!message) return;
+  const startHeartbeat = (current: WebSocketLike) => {
+    if (!heartbeat) return;
+    const timeoutMs = heartbeat.timeoutMs ?? 10_000;
+    pingTimer = setInterval(() => {
+      ping();
+      if (pongTimer === undefined) {
+        pongTimer = setTimeout(() => {
+          pongTimer = undefined;
+          current.close(4000, "heartbeat timeout");
+        }, timeoutMs);
+      }
+    }, heartbeat.intervalMs ?? 15_000);
+  };
 
-    const type = typeof message.type === "string" ? message.type : "";
-    if (type === "welcome") config.onWelcome?.(message);
-    else if (type === "ack") config.onAck?.(message);
-    else if (type === "log") {
-      config.onLog?.(message);
-      maybeUpdateCursor(message);
-    } else if (type === "catchUpComplete") config.onCatchUpComplete?.(message);
-    else if (type === "pong") config.onPong?.(message);
-    else if (type === "error") config.onServerError?.(message);
+  const scheduleReconnect = (): boolean => {
+    if (!reconnect || stopped) return false;
+    if (reconnect.maxAttempts !== undefined && attempt >= reconnect.maxAttempts) return false;
+    const base = Math.min(
+      reconnect.maxDelayMs ?? 30_000,
+      (reconnect.initialDelayMs ?? 500) * (reconnect.multiplier ?? 2) ** attempt,
+    );
+    const jitterMs = reconnect.jitterMs ?? 250;
+    const delayMs = base + (jitterMs > 0 ? Math.floor(Math.random() * jitterMs) : 0);
+    attempt += 1;
+    config.onReconnecting?.({ attempt, delayMs });
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      if (stopped) return;
+      try {
+        socket = connect();
+      } catch {
+        if (!scheduleReconnect()) endIterators();
+      }
+    }, delayMs);
+    return true;
   };
 
-  socket.onerror = (event) => {
-    config.onError?.(event);
+  const connect = (): WebSocketLike => {
+    const current = createSocket(wsUrl);
+
+    current.onopen = () => {
+      open = true;
+      attempt = 0;
+      const first = !connectedOnce;
+      connectedOnce = true;
+      // After a reconnect, queued messages are superseded by replaying `active`.
+      for (const text of pending.splice(0, pending.length)) current.send(text);
+      config.onOpen?.();
+      emit("open");
+      startHeartbeat(current);
+      if (first) {
+        if (config.subscriptions?.length) void bootstrapSubscriptions(config.subscriptions);
+      } else if (active.size > 0) {
+        void bootstrapSubscriptions([...active.values()]);
+      }
+    };
+
+    current.onmessage = (event) => {
+      if (pongTimer !== undefined) {
+        clearTimeout(pongTimer);
+        pongTimer = undefined;
+      }
+      const data = typeof event.data === "string" ? event.data : "";
+      let message: Record<string, unknown> | null = null;
+      try {
+        message = JSON.parse(data) as Record<string, unknown>;
+      } catch {
+        return;
+      }
+      if (!message) return;
+
+      const type = typeof message.type === "string" ? message.type : "";
+      if (type === "welcome") {
+        config.onWelcome?.(message);
+        emit("welcome", message);
+      } else if (type === "ack") {
+        config.onAck?.(message);
+        emit("ack", message);
+      } else if (type === "log") {
+        if (isReplayed(message)) return;
+        receiveLog(message);
+      } else if (type === "catchUpComplete") {
+        config.onCatchUpComplete?.(message);
+        emit("catchUpComplete", message);
+      } else if (type === "pong") {
+        config.onPong?.(message);
+        emit("pong", message);
+      } else if (type === "error") {
+        config.onServerError?.(message);
+        emit("serverError", message);
+      }
+    };
+
+    current.onerror = (event) => {
+      config.onError?.(event);
+      emit("error", event);
+    };
+
+    current.onclose = (event) => {
+      if (current !== socket) return;
+      open = false;
+      stopHeartbeat();
+      if (reconnect) pending.length = 0;
+      config.onClose?.(event);
+      emit("close", event);
+      if (!scheduleReconnect()) endIterators();
+    };
+
+    return current;
   };
 
-  socket.onclose = (event) => {
-    open = false;
-    config.onClose?.(event);
+  let socket = connect();
+
+  const close = (code?: number, reason?: string) => {
+    stopped = true;
+    stopHeartbeat();
+    if (reconnectTimer !== undefined) clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    socket.close(code, reason);
+    endIterators();
   };
 
   if (config.signal) {
-    if (config.signal.aborted) socket.close();
-    else config.signal.addEventListener("abort", () => socket.close(), { once: true });
+    if (config.signal.aborted) close();
+    else config.signal.addEventListener("abort", () => close(), { once: true });
   }
 
+  const markSubscribed = (sub: LogSubscription, cursor?: LogCursor) => {
+    const key = cursorKey(sub.scIndex, sub.logType);
+    resubscribed.add(key);
+    const logId = cursor?.lastLogId;
+    const tick = cursor?.lastTick;
+    if (!positions.has(key) && (logId !== undefined || tick !== undefined)) {
+      positions.set(key, { logId, tick });
+    }
+  };
+
   const subscribe = (sub: LogSubscription) => {
+    active.set(cursorKey(sub.scIndex, sub.logType), sub);
+    markSubscribed(sub, sub);
     sendMessage({
       action: "subscribe",
       scIndex: sub.scIndex,
@@ -119,6 +379,10 @@ export function createLogStream(config: LogStreamConfig): LogStream {
   };
 
   const subscribeMany = (subs: readonly LogSubscription[], cursor?: LogCursor) => {
+    for (const sub of subs) {
+      active.set(cursorKey(sub.scIndex, sub.logType), { ...sub, ...cursor });
+      markSubscribed(sub, cursor);
+    }
     sendMessage({
       action: "subscribe",
       ...(cursor?.lastLogId !== undefined ? { lastLogId: cursor.lastLogId } : {}),
@@ -130,6 +394,7 @@ export function createLogStream(config: LogStreamConfig): LogStream {
   };
 
   const unsubscribe = (sub: LogSubscription) => {
+    active.delete(cursorKey(sub.scIndex, sub.logType));
     sendMessage({
       action: "unsubscribe",
       scIndex: sub.scIndex,
@@ -138,6 +403,7 @@ export function createLogStream(config: LogStreamConfig): LogStream {
   };
 
   const unsubscribeAll = () => {
+    active.clear();
     sendMessage({ action: "unsubscribeAll" });
   };
 
@@ -145,16 +411,15 @@ export function createLogStream(config: LogStreamConfig): LogStream {
     sendMessage({ action: "ping" });
   };
 
-  const close = (code?: number, reason?: string) => {
-    socket.close(code, reason);
-  };
-
   const bootstrapSubscriptions = async (subs: readonly LogSubscription[]) => {
+    const current = socket;
     const withCursor: LogSubscription[] = [];
     for (const s of subs) {
       const cursor = await getCursorFor(s);
       withCursor.push({ ...s, ...cursor });
     }
+    // The socket closed while cursors loaded; the next connection bootstraps again.
+    if (current !== socket || !open) return;
 
     const hasPerCursor = withCursor.some(
       (s) => s.lastLogId !== undefined || s.lastTick !== undefined,
@@ -170,30 +435,467 @@ export function createLogStream(config: LogStreamConfig): LogStream {
     for (const sub of withCursor) subscribe(sub);
   };
 
+  /** Forgets everything after the last committed log so the failed one is delivered again. */
+  const rewind = (key: string) => {
+    blocked.delete(key);
+    commits.delete(key);
+    const done = committed.get(key);
+    if (done) {
+      latest.set(key, done.cursor);
+      positions.set(key, done.position);
+    } else {
+      latest.delete(key);
+      positions.delete(key);
+    }
+  };
+
   const getCursorFor = async (sub: LogSubscription): Promise<LogCursor | undefined> => {
+    const key = cursorKey(sub.scIndex, sub.logType);
+    if (blocked.has(key)) rewind(key);
+    const seen = latest.get(key);
+    if (seen) return { lastLogId: seen.lastLogId, lastTick: seen.lastTick };
     if (sub.lastLogId !== undefined || sub.lastTick !== undefined) {
       return { lastLogId: sub.lastLogId, lastTick: sub.lastTick };
     }
     if (!config.cursorStore) return undefined;
-    return config.cursorStore.get(cursorKey(sub.scIndex, sub.logType));
+    try {
+      return await config.cursorStore.get(key);
+    } catch (error) {
+      // An unreadable cursor must not keep the subscription from being sent.
+      config.onCursorStoreError?.(error, key, {});
+      emit("cursorStoreError", error, key, {});
+      return undefined;
+    }
   };
 
-  const maybeUpdateCursor = (message: Record<string, unknown>) => {
-    if (!config.cursorStore) return;
+  const readCursor = (message: Record<string, unknown>) => {
     const scIndex = asNumber(message.scIndex);
     const logType = asNumber(message.logType);
-    if (scIndex === undefined || logType === undefined) return;
+    if (scIndex === undefined || logType === undefined) return undefined;
 
     const payload = expectObject(message.message);
     const logId = asNumber(payload.logId ?? payload.id);
     const tick = asNumber(payload.tick ?? payload.tickNumber);
-    if (logId === undefined && tick === undefined) return;
+    if (logId === undefined && tick === undefined) return undefined;
 
     const cursor: LogCursor = logId !== undefined ? { lastLogId: logId } : { lastTick: tick };
-    config.cursorStore.set(cursorKey(scIndex, logType), cursor);
+    const epoch = asNumber(payload.epoch);
+    return { key: cursorKey(scIndex, logType), scIndex, logType, cursor, logId, tick, epoch };
+  };
+
+  const receiveLog = (message: Record<string, unknown>) => {
+    const read = config.backfill ? readCursor(message) : undefined;
+    if (!read) {
+      deliverLog(decodeLog(message));
+      return;
+    }
+    const backlog = backlogs.get(read.key);
+    if (backlog) {
+      backlog.push(message);
+      return;
+    }
+    const gap = findGap(read);
+    if (!gap) {
+      deliverLog(decodeLog(message));
+      return;
+    }
+    const queue = [message];
+    backlogs.set(read.key, queue);
+    drainBacklog(read.key, queue, gap).catch((error: unknown) => {
+      config.onBackfillError?.(error, gap);
+      emit("backfillError", error, gap);
+    });
+  };
+
+  /** Delivers `queue` in order, backfilling before every log that follows a gap. */
+  const drainBacklog = async (key: string, queue: Record<string, unknown>[], first: LogGap) => {
+    let gap: LogGap | undefined = first;
+    try {
+      for (let message = queue[0]; message && !stopped; message = queue[0]) {
+        if (gap) {
+          let missing: Record<string, unknown>[] | undefined;
+          try {
+            missing = await fetchGap(gap);
+          } catch (error) {
+            config.onBackfillError?.(error, gap);
+            emit("backfillError", error, gap);
+          }
+          if (stopped) break;
+          if (missing) {
+            for (const log of missing) {
+              if (!isReplayed(log)) deliverQueued(log);
+            }
+            const info = { ...gap, recovered: missing.length };
+            try {
+              config.onBackfill?.(info);
+            } catch (error) {
+              config.onBackfillError?.(error, gap);
+            }
+            emit("backfill", info);
+          }
+        }
+        queue.shift();
+        if (!stopped && !isReplayed(message)) deliverQueued(message);
+        const read = queue[0] && readCursor(queue[0]);
+        gap = read ? findGap(read) : undefined;
+      }
+    } finally {
+      // Whatever happened above, later logs of this subscription must not stay buffered.
+      backlogs.delete(key);
+    }
+  };
+
+  /** Delivers a buffered log; a failure is reported and does not stop the backlog. */
+  const deliverQueued = (message: Record<string, unknown>) => {
+    const decoded = decodeLog(message);
+    try {
+      deliverLog(decoded);
+    } catch (error) {
+      config.onLogError?.(error, decoded);
+      emit("logError", error, decoded);
+    }
   };
 
-  return { socket, subscribe, subscribeMany, unsubscribe, unsubscribeAll, ping, close };
+  const findGap = (read: NonNullable<ReturnType<typeof readCursor>>): LogGap | undefined => {
+    const checkOnce = config.backfill?.check !== "always";
+    const pending = resubscribed.delete(read.key);
+    if (checkOnce && !pending) return undefined;
+    const last = positions.get(read.key);
+    if (!last) return undefined;
+    const epoch = read.epoch ?? last.epoch;
+    const base = { scIndex: read.scIndex, logType: read.logType, epoch };
+    const sameEpoch =
+      read.epoch === undefined || last.epoch === undefined || read.epoch === last.epoch;
+    if (sameEpoch && last.logId !== undefined && read.logId !== undefined) {
+      if (read.logId <= last.logId + 1) return undefined;
+      return {
+        ...base,
+        fromLogId: last.logId + 1,
+        toLogId: read.logId - 1,
+        ...(last.tick !== undefined && read.tick !== undefined
+          ? { fromTick: last.tick, toTick: read.tick }
+          : {}),
+      };
+    }
+    if (last.tick !== undefined && read.tick !== undefined && read.tick > last.tick + 1) {
+      return { ...base, fromTick: last.tick + 1, toTick: read.tick - 1 };
+    }
+    return undefined;
+  };
+
+  /**
+   * Returns the subscription's logs inside `gap`. With a tick range, `findLog` narrows the
+   * search to this subscription first, so gaps left by other log types cost one request.
+   */
+  const fetchGap = async (gap: LogGap): Promise<Record<string, unknown>[]> => {
+    const backfill = config.backfill as LogStreamBackfillConfig;
+    let fromId = gap.fromLogId;
+    let toId = gap.toLogId;
+    let wanted: Set<number> | undefined;
+    if (gap.fromTick !== undefined && gap.toTick !== undefined) {
+      const ids = await backfill.bob.findLog({
+        fromTick: gap.fromTick,
+        toTick: gap.toTick,
+        scIndex: gap.scIndex,
+        logType: gap.logType,
+        topic1: "",
+        topic2: "",
+        topic3: "",
+      });
+      wanted = new Set(
+        ids.filter(
+          (id) => (fromId === undefined || id >= fromId) && (toId === undefined || id <= toId),
+        ),
+      );
+      if (wanted.size === 0) return [];
+      fromId = Math.min(...wanted);
+      toId = Math.max(...wanted);
+    }
+    if (fromId === undefined || toId === undefined) return [];
+
+    const epoch =
+      gap.epoch ?? (typeof backfill.epoch === "function" ? await backfill.epoch() : backfill.epoch);
+    if (epoch === undefined) throw new Error("Log backfill needs an epoch; set backfill.epoch");
+
+    const found: Record<string, unknown>[] = [];
+    for await (const page of backfill.bob.logRangePages({ epoch, fromId, toId })) {
+      for (const log of page.items) {
+        if (wanted && !wanted.has(log.logId)) continue;
+        if (log.logType !== gap.logType || (log.scIndex ?? 0) !== gap.scIndex) continue;
+        found.push({
+          type: "log",
+          scIndex: gap.scIndex,
+          logType: gap.logType,
+          message: log.raw,
+          backfilled: true,
+        });
+      }
+    }
+    return found;
+  };
+
+  /** Drops logs the server resends after a resubscribe from an inclusive cursor. */
+  const isReplayed = (message: Record<string, unknown>): boolean => {
+    const read = readCursor(message);
+    const last = read && latest.get(read.key)?.lastLogId;
+    const logId = read?.cursor.lastLogId;
+    if (!read || last === undefined || logId === undefined) return false;
+    // Log ids restart every epoch, so ids are only comparable within one epoch.
+    const lastEpoch = positions.get(read.key)?.epoch;
+    if (read.epoch !== undefined && lastEpoch !== undefined && read.epoch !== lastEpoch) {
+      return read.epoch < lastEpoch;
+    }
+    return logId <= last;
+  };
+
+  const decodeLog = (message: Record<string, unknown>): LogMessage<D> => {
+    const scIndex = asNumber(message.scIndex);
+    const logType = asNumber(message.logType);
+    if (!config.logDecoder || scIndex === undefined || logType === undefined) return message;
+    const payload = expectObject(message.message);
+    try {
+      const decoded = config.logDecoder.decode({
+        scIndex,
+        logType,
+        body: expectObject(payload.body ?? payload.message ?? payload),
+        raw: message,
+      });
+      return decoded === undefined ? message : { ...message, decoded };
+    } catch (error) {
+      return { ...message, decodeError: error };
+    }
+  };
+
+  /**
+   * Calls every listener even when one throws. A throwing `log` listener is returned as a
+   * rejected result so `deliverLog` treats it like a rejected handler; other events ignore it.
+   */
+  function emit<E extends LogStreamEvent>(
+    event: E,
+    ...args: Parameters<LogStreamEvents<D>[E]>
+  ): unknown[] {
+    return [...(listeners.get(event) ?? [])].map((listener) => {
+      try {
+        return listener(...args);
+      } catch (error) {
+        return event === "log" ? Promise.reject(error) : undefined;
+      }
+    });
+  }
+
+  const on = <E extends LogStreamEvent>(event: E, listener: LogStreamEvents<D>[E]) => {
+    let set = listeners.get(event);
+    if (!set) {
+      set = new Set();
+      listeners.set(event, set);
+    }
+    const entry = listener as unknown as Listener;
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  };
+
+  const onLog = (filter: LogFilter, listener: (message: LogMessage<D>) => unknown) =>
+    on("log", (message) => (matches(filter, message) ? listener(message) : undefined));
+
+  const deliverLog = (message: LogMessage<D>) => {
+    const read = readCursor(message);
+    const position = read && { logId: read.logId, tick: read.tick, epoch: read.epoch };
+    if (read && position) {
+      latest.set(read.key, read.cursor);
+      positions.set(read.key, position);
+    }
+
+    const consumers = [...iterators].filter((it) => matches(it.filter, message));
+    // One extra hold covers the handlers below until their results are known.
+    const commit =
+      read && position
+        ? trackCommit(read.key, { cursor: read.cursor, position, waiting: consumers.length + 1 })
+        : undefined;
+    const ack = commit?.ack ?? (() => {});
+    for (const it of consumers) it.push({ message, ack });
+
+    let handled: unknown;
+    try {
+      handled = config.onLog?.(message);
+    } catch (error) {
+      handled = Promise.reject(error);
+    }
+    for (const result of [handled, ...emit("log", message)]) {
+      if (!isPromiseLike(result)) continue;
+      commit?.hold();
+      result.then(ack, (error: unknown) => {
+        commit?.fail();
+        config.onLogError?.(error, message);
+        emit("logError", error, message);
+      });
+    }
+    ack();
+  };
+
+  /** Each of the `waiting` consumers calls `ack` once; `hold` adds another. */
+  const trackCommit = (key: string, entry: PendingCommit) => {
+    if (blocked.has(key)) return { ack() {}, hold() {}, fail() {} };
+    let queue = commits.get(key);
+    if (!queue) {
+      queue = [];
+      commits.set(key, queue);
+    }
+    queue.push(entry);
+    const flush = () => {
+      const q = commits.get(key);
+      while (q && q.length > 0 && (q[0] as PendingCommit).waiting <= 0) {
+        const head = q.shift() as PendingCommit;
+        committed.set(key, { cursor: head.cursor, position: head.position });
+        storeCursor(key, head.cursor);
+      }
+    };
+    return {
+      ack() {
+        entry.waiting -= 1;
+        flush();
+      },
+      hold() {
+        entry.waiting += 1;
+      },
+      fail() {
+        blocked.add(key);
+        commits.delete(key);
+      },
+    };
+  };
+
+  /** Writes cursors one at a time; only the newest unsaved cursor per key is written. */
+  const storeCursor = (key: string, cursor: LogCursor) => {
+    const store = config.cursorStore;
+    if (!store) return;
+    unsaved.set(key, cursor);
+    saving ??= (async () => {
+      for (let next = unsaved.entries().next(); !next.done; next = unsaved.entries().next()) {
+        const [k, c] = next.value;
+        unsaved.delete(k);
+        try {
+          await store.set(k, c);
+        } catch (error) {
+          config.onCursorStoreError?.(error, k, c);
+          emit("cursorStoreError", error, k, c);
+        }
+      }
+      saving = undefined;
+    })();
+  };
+
+  const flushCursors = async () => {
+    while (saving) await saving;
+  };
+
+  const endIterators = () => {
+    for (const it of [...iterators]) it.end();
+  };
+
+  const logs = (filter: LogFilter = {}, options: LogIteratorOptions = {}) => {
+    const buffer: LogItem[] = [];
+    let done = false;
+    let current: LogItem | undefined;
+    let wake: (() => void) | undefined;
+
+    const release = () => {
+      current?.ack();
+      current = undefined;
+    };
+    const finish = () => {
+      if (done) return;
+      done = true;
+      iterators.delete(state);
+      options.signal?.removeEventListener("abort", finish);
+      release();
+      for (const item of buffer.splice(0, buffer.length)) item.ack();
+      wake?.();
+    };
+    const state: LogIteratorState = {
+      filter,
+      push(item) {
+        buffer.push(item);
+        wake?.();
+      },
+      end: finish,
+    };
+
+    if (options.signal?.aborted || stopped) done = true;
+    else {
+      iterators.add(state);
+      options.signal?.addEventListener("abort", finish, { once: true });
+    }
+
+    const iterator: AsyncIterableIterator<LogMessage<D>> = {
+      async next(): Promise<IteratorResult<LogMessage<D>>> {
+        release();
+        while (buffer.length === 0 && !done) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+        }
+        const item = buffer.shift();
+        if (!item) return { done: true, value: undefined };
+        current = item;
+        return { done: false, value: item.message as LogMessage<D> };
+      },
+      async return(): Promise<IteratorResult<LogMessage<D>>> {
+        finish();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+    return iterator;
+  };
+
+  return {
+    get socket() {
+      return socket;
+    },
+    on,
+    onLog,
+    logs,
+    subscribe,
+    subscribeMany,
+    unsubscribe,
+    unsubscribeAll,
+    flushCursors,
+    ping,
+    close,
+  };
+}
+
+type Listener = (...args: unknown[]) => unknown;
+
+type LogItem = { message: LogMessage; ack: () => void };
+
+type LogIteratorState = {
+  filter: LogFilter;
+  push(item: LogItem): void;
+  end(): void;
+};
+
+type PendingCommit = { cursor: LogCursor; position: LogPosition; waiting: number };
+
+type LogPosition = { logId?: number; tick?: number; epoch?: number };
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+function matches(filter: LogFilter, message: LogMessage): boolean {
+  if (filter.scIndex !== undefined && message.scIndex !== filter.scIndex) return false;
+  if (filter.logType !== undefined && message.logType !== filter.logType) return false;
+  return true;
 }
 
 function toWebSocketUrl(baseUrl: string): string {
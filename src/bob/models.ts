@@ -0,0 +1,316 @@
+/**
+ * Typed QubicBob response models. Ticks, epochs and log ids stay `number` (they match the
+ * request inputs and log cursors); amounts and share counts are `bigint`. Every model keeps
+ * the original JSON object in `raw` for fields that are not modelled.
+ */
+
+export type BobRaw = Readonly<Record<string, unknown>>;
+
+export type BobStatus = Readonly<{
+  currentProcessingEpoch?: number;
+  currentFetchingTick?: number;
+  currentFetchingLogTick?: number;
+  currentVerifyLoggingTick?: number;
+  currentIndexingTick?: number;
+  initialTick?: number;
+  raw: BobRaw;
+}>;
+
+export type BobBalance = Readonly<{
+  identity: string;
+  balance: bigint;
+  incomingAmount?: bigint;
+  outgoingAmount?: bigint;
+  numberOfIncomingTransfers?: number;
+  numberOfOutgoingTransfers?: number;
+  latestIncomingTransferTick?: number;
+  latestOutgoingTransferTick?: number;
+  currentTick?: number;
+  raw: BobRaw;
+}>;
+
+export type BobAssetBalance = Readonly<{
+  ownershipShares?: bigint;
+  possessionShares?: bigint;
+  raw: BobRaw;
+}>;
+
+export type BobEpochInfo = Readonly<{
+  epoch: number;
+  initialTick?: number;
+  endTick?: number;
+  raw: BobRaw;
+}>;
+
+export type BobTransaction = Readonly<{
+  hash: string;
+  source: string;
+  destination: string;
+  amount: bigint;
+  tick: number;
+  inputType: number;
+  inputSize?: number;
+  inputData?: string;
+  signature?: string;
+  executed?: boolean;
+  raw: BobRaw;
+}>;
+
+export type BobTickData = Readonly<{
+  tick: number;
+  epoch?: number;
+  computorIndex?: number;
+  timestamp?: number;
+  transactionHashes?: readonly string[];
+  raw: BobRaw;
+}>;
+
+export type BobLogEvent<D = unknown> = Readonly<{
+  epoch?: number;
+  tick: number;
+  logId: number;
+  logType: number;
+  scIndex?: number;
+  txHash?: string;
+  /** Decoded log body as sent by QubicBob, if present. */
+  body?: BobRaw;
+  /** Result of the configured `logDecoder`, when it recognises the log. */
+  decoded?: D;
+  /** Set instead of `decoded` when the decoder threw. */
+  decodeError?: unknown;
+  raw: BobRaw;
+}>;
+
+export type BobLogDecodeInput = Readonly<{
+  scIndex: number;
+  logType: number;
+  body: BobRaw;
+  raw: BobRaw;
+}>;
+
+/**
+ * Turns raw logs into typed events, e.g. `createQbiLogDecoder`. Returns `undefined` for logs
+ * it does not know.
+ */
+export type BobLogDecoder<D> = Readonly<{
+  decode(log: BobLogDecodeInput): D | undefined;
+}>;
+
+export type BobBroadcastResult = Readonly<{
+  txHash?: string;
+  raw: BobRaw;
+}>;
+
+/** Thrown by the parsers; the client rethrows it as `BobError("bob_invalid_response")`. */
+export class BobResponseShapeError extends Error {
+  override name = "BobResponseShapeError";
+
+  constructor(
+    readonly path: string,
+    expected: string,
+  ) {
+    super(`Invalid QubicBob response: ${path} is not ${expected}`);
+  }
+}
+
+export function parseBobStatus(value: unknown): BobStatus {
+  const obj = expectObject(value, "status");
+  return {
+    currentProcessingEpoch: optionalInt(obj, "currentProcessingEpoch", "status"),
+    currentFetchingTick: optionalInt(obj, "currentFetchingTick", "status"),
+    currentFetchingLogTick: optionalInt(obj, "currentFetchingLogTick", "status"),
+    currentVerifyLoggingTick: optionalInt(obj, "currentVerifyLoggingTick", "status"),
+    currentIndexingTick: optionalInt(obj, "currentIndexingTick", "status"),
+    initialTick: optionalInt(obj, "initialTick", "status"),
+    raw: obj,
+  };
+}
+
+export function parseBobBalance(value: unknown, identity: string): BobBalance {
+  const obj = expectObject(value, "balance");
+  const id = obj.identity ?? obj.id;
+  return {
+    identity: id === undefined ? identity : expectString(id, "balance.identity"),
+    balance: parseAmount(obj.balance, "balance.balance"),
+    incomingAmount: optionalAmount(obj, "incomingAmount", "balance"),
+    outgoingAmount: optionalAmount(obj, "outgoingAmount", "balance"),
+    numberOfIncomingTransfers: optionalInt(obj, "numberOfIncomingTransfers", "balance"),
+    numberOfOutgoingTransfers: optionalInt(obj, "numberOfOutgoingTransfers", "balance"),
+    latestIncomingTransferTick: optionalInt(obj, "latestIncomingTransferTick", "balance"),
+    latestOutgoingTransferTick: optionalInt(obj, "latestOutgoingTransferTick", "balance"),
+    currentTick: optionalInt(obj, "currentTick", "balance"),
+    raw: obj,
+  };
+}
+
+export function parseBobAssetBalance(value: unknown): BobAssetBalance {
+  const obj = expectObject(value, "asset");
+  return {
+    ownershipShares: optionalAmount(obj, "ownershipShares", "asset"),
+    possessionShares: optionalAmount(obj, "possessionShares", "asset"),
+    raw: obj,
+  };
+}
+
+export function parseBobEpochInfo(value: unknown, epoch: number): BobEpochInfo {
+  const obj = expectObject(value, "epochInfo");
+  return {
+    epoch: optionalInt(obj, "epoch", "epochInfo") ?? epoch,
+    initialTick: optionalInt(obj, "initialTick", "epochInfo"),
+    endTick: optionalInt(obj, "endTick", "epochInfo"),
+    raw: obj,
+  };
+}
+
+export function parseBobTransaction(value: unknown): BobTransaction {
+  const obj = expectObject(value, "tx");
+  return {
+    hash: expectString(obj.hash ?? obj.txHash, "tx.hash"),
+    source: expectString(obj.source ?? obj.from, "tx.source"),
+    destination: expectString(obj.destination ?? obj.to, "tx.destination"),
+    amount: parseAmount(obj.amount, "tx.amount"),
+    tick: parseInteger(obj.tick ?? obj.tickNumber, "tx.tick"),
+    inputType: parseInteger(obj.inputType, "tx.inputType"),
+    inputSize: optionalInt(obj, "inputSize", "tx"),
+    inputData: optionalString(obj, "inputData", "tx"),
+    signature: optionalString(obj, "signature", "tx"),
+    executed: optionalBoolean(obj, "executed", "tx"),
+    raw: obj,
+  };
+}
+
+export function parseBobTickData(value: unknown, tick: number): BobTickData {
+  const obj = expectObject(value, "tick");
+  const hashes = obj.transactionHashes;
+  return {
+    tick: optionalInt(obj, "tick", "tick") ?? optionalInt(obj, "tickNumber", "tick") ?? tick,
+    epoch: optionalInt(obj, "epoch", "tick"),
+    computorIndex: optionalInt(obj, "computorIndex", "tick"),
+    timestamp: optionalInt(obj, "timestamp", "tick"),
+    transactionHashes:
+      hashes === undefined
+        ? undefined
+        : expectArray(hashes, "tick.transactionHashes").map((h, i) =>
+            expectString(h, `tick.transactionHashes[${i}]`),
+          ),
+    raw: obj,
+  };
+}
+
+export function parseBobLogEvent(value: unknown, label = "log"): BobLogEvent {
+  const obj = expectObject(value, label);
+  const body = obj.body ?? obj.message;
+  return {
+    epoch: optionalInt(obj, "epoch", label),
+    tick: parseInteger(obj.tick ?? obj.tickNumber, `${label}.tick`),
+    logId: parseInteger(obj.logId ?? obj.id, `${label}.logId`),
+    logType: parseInteger(obj.logType ?? obj.type, `${label}.logType`),
+    scIndex: optionalInt(obj, "scIndex", label),
+    txHash: optionalString(obj, "txHash", label),
+    body: body === undefined ? undefined : expectObject(body, `${label}.body`),
+    raw: obj,
+  };
+}
+
+/** Accepts a bare array or an object wrapping exactly one array (e.g. `{ logs: [...] }`). */
+export function parseBobLogList(value: unknown, label: string): readonly BobLogEvent[] {
+  return unwrapList(value, label).map((item, i) => parseBobLogEvent(item, `${label}[${i}]`));
+}
+
+export function parseBobLogIds(value: unknown, label: string): readonly number[] {
+  return unwrapList(value, label).map((item, i) => {
+    if (item !== null && typeof item === "object") {
+      return parseBobLogEvent(item, `${label}[${i}]`).logId;
+    }
+    return parseInteger(item, `${label}[${i}]`);
+  });
+}
+
+/**
+ * Attaches `decoded` (or `decodeError`) to each event. Logs without `scIndex` are core
+ * protocol logs and are decoded as contract index 0.
+ */
+export function decodeBobLogs<D>(
+  events: readonly BobLogEvent[],
+  decoder: BobLogDecoder<D> | undefined,
+): readonly BobLogEvent<D>[] {
+  if (!decoder) return events as readonly BobLogEvent<D>[];
+  return events.map((event) => {
+    try {
+      const decoded = decoder.decode({
+        scIndex: event.scIndex ?? 0,
+        logType: event.logType,
+        body: event.body ?? event.raw,
+        raw: event.raw,
+      });
+      return decoded === undefined ? (event as BobLogEvent<D>) : { ...event, decoded };
+    } catch (error) {
+      return { ...event, decodeError: error } as BobLogEvent<D>;
+    }
+  });
+}
+
+export function parseBobBroadcastResult(value: unknown): BobBroadcastResult {
+  const obj = expectObject(value, "broadcast");
+  return { txHash: optionalString(obj, "txHash", "broadcast"), raw: obj };
+}
+
+function unwrapList(value: unknown, label: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null) return [];
+  const obj = expectObject(value, label);
+  const arrays = Object.values(obj).filter(Array.isArray);
+  if (arrays.length !== 1) throw new BobResponseShapeError(label, "a list");
+  return arrays[0] as unknown[];
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new BobResponseShapeError(path, "an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new BobResponseShapeError(path, "an array");
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new BobResponseShapeError(path, "a string");
+  return value;
+}
+
+function parseInteger(value: unknown, path: string): number {
+  if (typeof value === "number" && Number.isSafeInteger(value)) return value;
+  if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    const n = Number(value);
+    if (Number.isSafeInteger(n)) return n;
+  }
+  throw new BobResponseShapeError(path, "a safe integer");
+}
+
+function parseAmount(value: unknown, path: string): bigint {
+  if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+  if (typeof value === "string" && /^-?\d+$/.test(value)) return BigInt(value);
+  throw new BobResponseShapeError(path, "an integer amount");
+}
+
+function optionalInt(obj: Record<string, unknown>, key: string, label: string) {
+  return obj[key] === undefined ? undefined : parseInteger(obj[key], `${label}.${key}`);
+}
+
+function optionalAmount(obj: Record<string, unknown>, key: string, label: string) {
+  return obj[key] === undefined ? undefined : parseAmount(obj[key], `${label}.${key}`);
+}
+
+function optionalString(obj: Record<string, unknown>, key: string, label: string) {
+  return obj[key] === undefined ? undefined : expectString(obj[key], `${label}.${key}`);
+}
+
+function optionalBoolean(obj: Record<string, unknown>, key: string, label: string) {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") throw new BobResponseShapeError(`${label}.${key}`, "a boolean");
+  return value;
+}
@@ -0,0 +1,81 @@
+export type BobPageCursor = Readonly<{
+  /** First tick (or log id) that has not been yielded yet. */
+  next: number;
+}>;
+
+export type BobWindowPagingInput = Readonly<{
+  /** Initial window width in ticks or log ids (default: 1_000). */
+  windowSize?: number;
+  /** Smallest window; a capped response at this width is yielded as is (default: 1). */
+  minWindowSize?: number;
+  /** Largest window reached when growing after sparse responses (default: 100_000). */
+  maxWindowSize?: number;
+  /**
+   * Responses with at least this many items are treated as truncated by the server and
+   * re-fetched with half the window (default: 1_000).
+   */
+  maxResultsPerWindow?: number;
+  /** Resumes after the page that produced this cursor. */
+  cursor?: BobPageCursor;
+}>;
+
+export type BobWindowPage<T> = Readonly<{
+  /** Inclusive window bounds that produced `items`. */
+  from: number;
+  to: number;
+  items: readonly T[];
+  /** Pass back as `cursor` to continue after this page. */
+  cursor: BobPageCursor;
+}>;
+
+/**
+ * Walks `[from, to]` in adaptive windows: halves the window when a response looks capped
+ * (or the server rejects it with 413), and doubles it again while responses stay sparse.
+ */
+export async function* walkWindows<T>(
+  from: number,
+  to: number,
+  paging: BobWindowPagingInput,
+  fetchWindow: (from: number, to: number) => Promise<readonly T[]>,
+  isOversizedError: (error: unknown) => boolean = () => false,
+): AsyncGenerator<BobWindowPage<T>, void, void> {
+  const minWindow = paging.minWindowSize ?? 1;
+  const maxWindow = paging.maxWindowSize ?? 100_000;
+  const cap = paging.maxResultsPerWindow ?? 1_000;
+  let window = paging.windowSize ?? 1_000;
+  for (const [name, value] of [
+    ["windowSize", window],
+    ["minWindowSize", minWindow],
+    ["maxWindowSize", maxWindow],
+    ["maxResultsPerWindow", cap],
+  ] as const) {
+    if (!Number.isSafeInteger(value) || value <= 0) {
+      throw new RangeError(`${name} must be a positive integer`);
+    }
+  }
+  if (minWindow > maxWindow) throw new RangeError("minWindowSize must be <= maxWindowSize");
+  window = Math.min(Math.max(window, minWindow), maxWindow);
+
+  let start = Math.max(from, paging.cursor?.next ?? from);
+  while (start <= to) {
+    const end = Math.min(to, start + window - 1);
+    const halved = Math.max(minWindow, Math.floor((end - start + 1) / 2));
+    let items: readonly T[];
+    try {
+      items = await fetchWindow(start, end);
+    } catch (error) {
+      if (!isOversizedError(error) || end - start + 1 <= minWindow) throw error;
+      window = halved;
+      continue;
+    }
+
+    if (items.length >= cap && end - start + 1 > minWindow) {
+      window = halved;
+      continue;
+    }
+
+    yield { from: start, to: end, items, cursor: { next: end + 1 } };
+    start = end + 1;
+    if (items.length < cap / 4) window = Math.min(maxWindow, window * 2);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import {
+  CircuitOpenError,
+  type CircuitStateChange,
+  createCircuitBreaker,
+} from "./circuit-breaker.js";
+
+const fail = () => Promise.reject(new Error("down"));
+const ok = () => Promise.resolve("ok");
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and fails fast", async () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = createCircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 60_000,
+      onStateChange: (change) => changes.push(change),
+    });
+
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("closed");
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("open");
+
+    let called = false;
+    const error = await breaker
+      .run("a", async () => {
+        called = true;
+      })
+      .catch((err: unknown) => err);
+    expect(called).toBe(false);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).code).toBe("circuit_open");
+    expect(breaker.state("b")).toBe("closed");
+    expect(changes.map((c) => [c.key, c.from, c.to, c.failures])).toEqual([
+      ["a", "closed", "open", 2],
+    ]);
+  });
+
+  it("lets one trial through when half-open and closes on success", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("half-open");
+
+    let release: (() => void) | undefined;
+    const trial = breaker.run(
+      "a",
+      () =>
+        new Promise<string>((resolve) => {
+          release = () => resolve("ok");
+        }),
+    );
+    await expect(breaker.run("a", ok)).rejects.toBeInstanceOf(CircuitOpenError);
+    release?.();
+    await expect(trial).resolves.toBe("ok");
+    expect(breaker.state("a")).toBe("closed");
+  });
+
+  it("reopens when the half-open trial fails", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 50 });
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(breaker.state("a")).toBe("half-open");
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("open");
+  });
+
+  it("does not count errors rejected by isFailure", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    await expect(breaker.run("a", fail, () => false)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("closed");
+    breaker.reset();
+    expect(breaker.states().get("a")).toBe("closed");
+  });
+
+  it("keeps a half-open circuit half-open when the trial error is not a failure", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+    await expect(breaker.run("a", fail)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("half-open");
+
+    await expect(breaker.run("a", fail, () => false)).rejects.toThrow("down");
+    expect(breaker.state("a")).toBe("half-open");
+    await expect(breaker.run("a", ok)).resolves.toBe("ok");
+    expect(breaker.state("a")).toBe("closed");
+  });
+});
@@ -0,0 +1,153 @@
+import { SdkError } from "./errors.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitStateChange = Readonly<{
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures when the change happened. */
+  failures: number;
+  /** The failure that opened the circuit, if any. */
+  error?: unknown;
+}>;
+
+export type CircuitBreakerConfig = Readonly<{
+  /** Consecutive failures that open a circuit (default: 5). */
+  failureThreshold?: number;
+  /** Time an open circuit fails fast before letting one trial call through (default: 30_000). */
+  resetTimeoutMs?: number;
+  onStateChange?: (change: CircuitStateChange) => void;
+}>;
+
+export type CircuitBreaker = Readonly<{
+  /**
+   * Runs `fn` unless the circuit for `key` is open. Errors for which `isFailure` returns
+   * false (e.g. 4xx responses, aborts) count as the endpoint being reachable, except during a
+   * half-open trial, where they release the trial slot without closing the circuit.
+   */
+  run<T>(key: string, fn: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T>;
+  state(key: string): CircuitState;
+  states(): ReadonlyMap<string, CircuitState>;
+  reset(key?: string): void;
+}>;
+
+export class CircuitOpenError extends SdkError {
+  override name = "CircuitOpenError";
+
+  constructor(
+    readonly key: string,
+    readonly retryInMs: number,
+  ) {
+    super("circuit_open", `Circuit for ${key} is open`, { key, retryInMs });
+  }
+}
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAtMs: number;
+  trialInFlight: boolean;
+};
+
+export function createCircuitBreaker(config: CircuitBreakerConfig = {}): CircuitBreaker {
+  const failureThreshold = config.failureThreshold ?? 5;
+  const resetTimeoutMs = config.resetTimeoutMs ?? 30_000;
+  if (!Number.isInteger(failureThreshold) || failureThreshold <= 0) {
+    throw new RangeError("failureThreshold must be a positive integer");
+  }
+  if (!Number.isFinite(resetTimeoutMs) || resetTimeoutMs < 0) {
+    throw new RangeError("resetTimeoutMs must be >= 0");
+  }
+  const circuits = new Map<string, Circuit>();
+
+  const get = (key: string): Circuit => {
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = { state: "closed", failures: 0, openedAtMs: 0, trialInFlight: false };
+      circuits.set(key, circuit);
+    }
+    return circuit;
+  };
+
+  const transition = (key: string, circuit: Circuit, to: CircuitState, error?: unknown) => {
+    if (circuit.state === to) return;
+    const from = circuit.state;
+    circuit.state = to;
+    if (to === "open") circuit.openedAtMs = Date.now();
+    config.onStateChange?.({ key, from, to, failures: circuit.failures, error });
+  };
+
+  const current = (key: string, circuit: Circuit): CircuitState => {
+    if (circuit.state === "open" && Date.now() - circuit.openedAtMs >= resetTimeoutMs) {
+      transition(key, circuit, "half-open");
+    }
+    return circuit.state;
+  };
+
+  return {
+    async run<T>(
+      key: string,
+      fn: () => Promise<T>,
+      isFailure: (error: unknown) => boolean = () => true,
+    ): Promise<T> {
+      const circuit = get(key);
+      const state = current(key, circuit);
+      if (state === "open" || (state === "half-open" && circuit.trialInFlight)) {
+        const retryInMs = Math.max(0, circuit.openedAtMs + resetTimeoutMs - Date.now());
+        throw new CircuitOpenError(key, retryInMs);
+      }
+
+      const trial = state === "half-open";
+      if (trial) circuit.trialInFlight = true;
+      try {
+        const value = await fn();
+        circuit.failures = 0;
+        transition(key, circuit, "closed");
+        return value;
+      } catch (error) {
+        if (!isFailure(error)) {
+          // An aborted or rejected trial proves nothing: free the slot and stay half-open.
+          if (!trial) {
+            circuit.failures = 0;
+            transition(key, circuit, "closed");
+          }
+          throw error;
+        }
+        circuit.failures += 1;
+        if (trial || circuit.failures >= failureThreshold) {
+          transition(key, circuit, "open", error);
+          // A failed trial restarts the cool-down.
+          circuit.openedAtMs = Date.now();
+        }
+        throw error;
+      } finally {
+        if (trial) circuit.trialInFlight = false;
+      }
+    },
+
+    state(key: string): CircuitState {
+      const circuit = circuits.get(key);
+      return circuit ? current(key, circuit) : "closed";
+    },
+
+    states(): ReadonlyMap<string, CircuitState> {
+      const out = new Map<string, CircuitState>();
+      for (const [key, circuit] of circuits) out.set(key, current(key, circuit));
+      return out;
+    },
+
+    reset(key?: string) {
+      const reset = (k: string, circuit: Circuit) => {
+        circuit.failures = 0;
+        transition(k, circuit, "closed");
+      };
+      if (key === undefined) {
+        for (const [k, circuit] of circuits) reset(k, circuit);
+        return;
+      }
+      const circuit = circuits.get(key);
+      if (circuit) reset(key, circuit);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { raceSignal } from "./http.js";
+
+export type Coalescer<T> = Readonly<{
+  /**
+   * Shares one in-flight `load` per key and reuses its result for `ttlMs` after it settles.
+   * `signal` only detaches this caller; the shared load is aborted once every caller has.
+   */
+  run(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>;
+  clear(key?: string): void;
+}>;
+
+type InFlight<T> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+};
+
+export function createCoalescer<T>(ttlMs = 0): Coalescer<T> {
+  const inFlight = new Map<string, InFlight<T>>();
+  const settled = new Map<string, { value: T; expiresAtMs: number }>();
+
+  const start = (key: string, load: (signal: AbortSignal) => Promise<T>): InFlight<T> => {
+    const controller = new AbortController();
+    const entry: InFlight<T> = {
+      controller,
+      waiters: 0,
+      promise: load(controller.signal).then(
+        (value) => {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+          if (ttlMs > 0) settled.set(key, { value, expiresAtMs: Date.now() + ttlMs });
+          return value;
+        },
+        (error: unknown) => {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+          throw error;
+        },
+      ),
+    };
+    // Every caller may have detached before the load settles.
+    entry.promise.catch(() => {});
+    inFlight.set(key, entry);
+    return entry;
+  };
+
+  return {
+    async run(key, load, signal) {
+      const hit = settled.get(key);
+      if (hit && hit.expiresAtMs > Date.now()) return hit.value;
+      if (hit) settled.delete(key);
+
+      signal?.throwIfAborted();
+      const entry = inFlight.get(key) ?? start(key, load);
+      entry.waiters += 1;
+      try {
+        return await (signal ? raceSignal(entry.promise, signal) : entry.promise);
+      } finally {
+        entry.waiters -= 1;
+        if (entry.waiters === 0 && signal?.aborted) {
+          // Nobody is left waiting: stop the request and let the next caller start afresh.
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+          entry.controller.abort(signal.reason);
+        }
+      }
+    },
+
+    clear(key?: string) {
+      if (key === undefined) {
+        settled.clear();
+        return;
+      }
+      settled.delete(key);
+    },
+  };
+}
@@ -1,3 +1,4 @@
+import type { RequestOptions } from "./http.js";
 import type { RpcClient } from "./rpc/client.js";
 
 export type ContractsHelpersConfig = Readonly<{
@@ -26,11 +27,14 @@ export type QueryRawResult = Readonly<{
 
 export type ContractsHelpers = Readonly<{
   queryRaw(input: QueryRawInput): Promise<QueryRawResult>;
-  querySmartContract(input: {
-    contractIndex: bigint | number;
-    inputType: bigint | number;
-    input: Uint8Array | string;
-  }): Promise<{ responseBytes: Uint8Array; responseBase64: string }>;
+  querySmartContract(
+    input: {
+      contractIndex: bigint | number;
+      inputType: bigint | number;
+      input: Uint8Array | string;
+    },
+    options?: RequestOptions,
+  ): Promise<{ responseBytes: Uint8Array; responseBase64: string }>;
 }>;
 
 export class ContractQueryAbortedError extends Error {
@@ -44,8 +48,9 @@ export function createContractHelpers(config: ContractsHelpersConfig): Contracts
   return {
     async querySmartContract(
       input,
+      options?: RequestOptions,
     ): Promise<{ responseBytes: Uint8Array; responseBase64: string }> {
-      return config.rpc.live.querySmartContract(input);
+      return config.rpc.live.querySmartContract(input, options);
     },
 
     async queryRaw(input: QueryRawInput): Promise<QueryRawResult> {
@@ -68,11 +73,20 @@ export function createContractHelpers(config: ContractsHelpersConfig): Contracts
         if (signal.aborted) throw new ContractQueryAbortedError("Contract query aborted");
         attempts++;
 
-        const res = await config.rpc.live.querySmartContract({
-          contractIndex: input.contractIndex,
-          inputType: input.inputType,
-          input: inputBytes,
-        });
+        let res: { responseBytes: Uint8Array; responseBase64: string };
+        try {
+          res = await config.rpc.live.querySmartContract(
+            {
+              contractIndex: input.contractIndex,
+              inputType: input.inputType,
+              input: inputBytes,
+            },
+            { signal },
+          );
+        } catch (error) {
+          if (signal.aborted) throw new ContractQueryAbortedError("Contract query aborted");
+          throw error;
+        }
 
         const shortResponse =
           typeof expectedOutputSize === "number" &&
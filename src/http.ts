@@ -1 +1,59 @@
 export type FetchLike = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export type RequestOptions = Readonly<{
+  /** Cancels the request, including pending retries. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in ms; overrides the client default. */
+  timeoutMs?: number;
+}>;
+
+export type RequestSignal = Readonly<{
+  signal: AbortSignal;
+  timedOut(): boolean;
+  cleanup(): void;
+}>;
+
+export function createRequestSignal(parent?: AbortSignal, timeoutMs?: number): RequestSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeoutMs !== undefined && Number.isFinite(timeoutMs) && timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    cleanup() {
+      if (timer !== undefined) clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/** Rejects as soon as `signal` aborts, even if `promise` ignores the signal. */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { createBobClient } from "./bob/client.js";
+import type { FetchLike } from "./http.js";
+import {
+  createLatencyHistogram,
+  createLoggingMiddleware,
+  type LoggingMiddlewareEntry,
+  type Middleware,
+} from "./middleware.js";
+import { createRpcClient } from "./rpc/client.js";
+
+const tickInfoFetch: FetchLike = async () =>
+  Response.json({ tickInfo: { tick: 1, duration: 0, epoch: 1, initialTick: 0 } });
+
+describe("middleware", () => {
+  it("runs middlewares in order and lets them rewrite requests", async () => {
+    const order: string[] = [];
+    let seenHeaders: Record<string, string> | undefined;
+    const fetch: FetchLike = async (input, init) => {
+      seenHeaders = init?.headers as Record<string, string>;
+      return tickInfoFetch(input, init);
+    };
+    const auth: Middleware = async (ctx, next) => {
+      order.push("auth:before");
+      ctx.headers.authorization = "Bearer token";
+      const res = await next();
+      order.push("auth:after");
+      return res;
+    };
+    const tag: Middleware = async (ctx, next) => {
+      order.push("tag");
+      return next({ ...ctx, headers: { ...ctx.headers, "x-tag": "1" } });
+    };
+
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      middleware: [auth, tag],
+    });
+    await rpc.live.tickInfo();
+
+    expect(order).toEqual(["auth:before", "tag", "auth:after"]);
+    expect(seenHeaders?.authorization).toBe("Bearer token");
+    expect(seenHeaders?.["x-tag"]).toBe("1");
+  });
+
+  it("allows short-circuiting without calling fetch", async () => {
+    let fetched = false;
+    const bob = createBobClient({
+      baseUrl: "http://example.test",
+      fetch: async () => {
+        fetched = true;
+        return new Response("unused");
+      },
+      middleware: [async () => Response.json({ cached: true })],
+    });
+    await expect(bob.status()).resolves.toMatchObject({ raw: { cached: true } });
+    expect(fetched).toBe(false);
+  });
+
+  it("logs one entry per attempt", async () => {
+    const entries: LoggingMiddlewareEntry[] = [];
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch: tickInfoFetch,
+      middleware: [createLoggingMiddleware({ log: (entry) => entries.push(entry) })],
+    });
+    await rpc.live.tickInfo();
+    expect(entries.length).toBe(1);
+    expect(entries[0]?.client).toBe("rpc");
+    expect(entries[0]?.status).toBe(200);
+    expect(entries[0]?.url).toBe("https://example.test/live/v1/tick-info");
+  });
+
+  it("records latency histograms per route", async () => {
+    const histogram = createLatencyHistogram({ bucketsMs: [1_000] });
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch: tickInfoFetch,
+      middleware: [histogram.middleware],
+    });
+    await rpc.live.tickInfo();
+    await rpc.live.tickInfo();
+
+    const series = histogram.snapshot().get("GET /live/v1/tick-info");
+    expect(series?.count).toBe(2);
+    expect(series?.errors).toBe(0);
+    expect(series?.buckets.map((b) => b.count)).toEqual([2, 2]);
+
+    histogram.reset();
+    expect(histogram.snapshot().size).toBe(0);
+  });
+});
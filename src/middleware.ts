@@ -0,0 +1,147 @@
+export type MiddlewareContext = {
+  readonly client: "rpc" | "bob";
+  url: URL;
+  method: string;
+  headers: Record<string, string>;
+  /** Serialized request body (JSON text), if any. */
+  body?: string;
+  readonly signal: AbortSignal;
+  /** Free-form per-request state shared between middlewares. */
+  readonly state: Record<string, unknown>;
+};
+
+export type MiddlewareNext = (ctx?: MiddlewareContext) => Promise<Response>;
+
+export type Middleware = (ctx: MiddlewareContext, next: MiddlewareNext) => Promise<Response>;
+
+export function composeMiddleware(
+  middlewares: readonly Middleware[],
+  terminal: (ctx: MiddlewareContext) => Promise<Response>,
+): (ctx: MiddlewareContext) => Promise<Response> {
+  return (ctx) => {
+    const dispatch = (index: number, current: MiddlewareContext): Promise<Response> => {
+      const middleware = middlewares[index];
+      if (!middleware) return terminal(current);
+      let called = false;
+      return middleware(current, (nextCtx) => {
+        if (called) return Promise.reject(new Error("Middleware called next() more than once"));
+        called = true;
+        return dispatch(index + 1, nextCtx ?? current);
+      });
+    };
+    return dispatch(0, ctx);
+  };
+}
+
+export type LoggingMiddlewareEntry = Readonly<{
+  client: "rpc" | "bob";
+  method: string;
+  url: string;
+  status?: number;
+  durationMs: number;
+  error?: unknown;
+}>;
+
+export type LoggingMiddlewareConfig = Readonly<{
+  /** Receives one entry per HTTP attempt (default: `console.debug`). */
+  log?: (entry: LoggingMiddlewareEntry) => void;
+}>;
+
+export function createLoggingMiddleware(config: LoggingMiddlewareConfig = {}): Middleware {
+  const log = config.log ?? ((entry: LoggingMiddlewareEntry) => console.debug(entry));
+  return async (ctx, next) => {
+    const start = Date.now();
+    const base = { client: ctx.client, method: ctx.method, url: ctx.url.toString() };
+    try {
+      const res = await next();
+      log({ ...base, status: res.status, durationMs: Date.now() - start });
+      return res;
+    } catch (error) {
+      log({ ...base, durationMs: Date.now() - start, error });
+      throw error;
+    }
+  };
+}
+
+export type LatencyHistogramConfig = Readonly<{
+  /** Upper bucket bounds in ms (default: 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000). */
+  bucketsMs?: readonly number[];
+  /** Groups requests into series (default: `${method} ${pathname}`). */
+  label?: (ctx: MiddlewareContext) => string;
+}>;
+
+export type LatencyHistogramSnapshot = Readonly<{
+  /** Cumulative counts per upper bound; the last bucket is `Infinity`. */
+  buckets: readonly Readonly<{ leMs: number; count: number }>[];
+  count: number;
+  errors: number;
+  sumMs: number;
+}>;
+
+export type LatencyHistogram = Readonly<{
+  middleware: Middleware;
+  snapshot(): ReadonlyMap<string, LatencyHistogramSnapshot>;
+  reset(): void;
+}>;
+
+const DEFAULT_LATENCY_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000];
+
+export function createLatencyHistogram(config: LatencyHistogramConfig = {}): LatencyHistogram {
+  const bounds = [...(config.bucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS)]
+    .sort((a, b) => a - b)
+    .concat(Number.POSITIVE_INFINITY);
+  const label = config.label ?? ((ctx: MiddlewareContext) => `${ctx.method} ${ctx.url.pathname}`);
+  const series = new Map<
+    string,
+    { counts: number[]; count: number; errors: number; sumMs: number }
+  >();
+
+  const record = (key: string, durationMs: number, failed: boolean) => {
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { counts: bounds.map(() => 0), count: 0, errors: 0, sumMs: 0 };
+      series.set(key, entry);
+    }
+    const index = bounds.findIndex((le) => durationMs <= le);
+    entry.counts[index] = (entry.counts[index] ?? 0) + 1;
+    entry.count += 1;
+    entry.sumMs += durationMs;
+    if (failed) entry.errors += 1;
+  };
+
+  return {
+    middleware: async (ctx, next) => {
+      const key = label(ctx);
+      const start = Date.now();
+      try {
+        const res = await next();
+        record(key, Date.now() - start, !res.ok);
+        return res;
+      } catch (error) {
+        record(key, Date.now() - start, true);
+        throw error;
+      }
+    },
+
+    snapshot() {
+      const out = new Map<string, LatencyHistogramSnapshot>();
+      for (const [key, entry] of series) {
+        let cumulative = 0;
+        out.set(key, {
+          buckets: bounds.map((leMs, i) => {
+            cumulative += entry.counts[i] ?? 0;
+            return { leMs, count: cumulative };
+          }),
+          count: entry.count,
+          errors: entry.errors,
+          sumMs: entry.sumMs,
+        });
+      }
+      return out;
+    },
+
+    reset() {
+      series.clear();
+    },
+  };
+}
@@ -1,7 +1,13 @@
 import { describe, expect, it } from "bun:test";
 import type { ContractsHelpers } from "./contracts.js";
 import type { QbiCodecRegistry } from "./qbi.js";
-import { createQbiHelpers, createQbiRegistry, defineQbiCodecs } from "./qbi.js";
+import {
+  createQbiHelpers,
+  createQbiLogDecoder,
+  createQbiRegistry,
+  defineQbiCodecs,
+  QbiCodecError,
+} from "./qbi.js";
 
 describe("qbi helpers", () => {
   it("resolves entries and uses outputSize for queryRaw", async () => {
@@ -190,4 +196,50 @@ describe("qbi helpers", () => {
       }),
     ).toThrow();
   });
+
+  it("decodes logs declared in the QBI file by scIndex and logType", () => {
+    const registry = createQbiRegistry({
+      files: [
+        {
+          contract: { name: "QX", contractIndex: 1 },
+          entries: [],
+          logs: [
+            { name: "AddAskOrder", logType: 2 },
+            { name: "Undecoded", logType: 3 },
+          ],
+        },
+      ],
+    });
+    const codecs = defineQbiCodecs({
+      QX: {
+        logs: {
+          AddAskOrder: {
+            decode(_entry: unknown, log: { body: Readonly<Record<string, unknown>> }) {
+              if (typeof log.body.price !== "string") throw new Error("price missing");
+              return { price: BigInt(log.body.price) };
+            },
+          },
+        },
+      },
+    });
+
+    const decoder = createQbiLogDecoder({ registry, codecs });
+    const event = decoder.decode({ scIndex: 1, logType: 2, body: { price: "5" }, raw: {} });
+    expect(event).toEqual({ contract: "QX", name: "AddAskOrder", value: { price: 5n } });
+    if (event?.name === "AddAskOrder") expect(event.value.price).toBe(5n);
+
+    expect(decoder.decode({ scIndex: 1, logType: 3, body: {}, raw: {} })).toBeUndefined();
+    expect(decoder.decode({ scIndex: 9, logType: 2, body: {}, raw: {} })).toBeUndefined();
+    expect(decoder.getLogEntry(1, 3)?.entry.name).toBe("Undecoded");
+    expect(() => decoder.decode({ scIndex: 1, logType: 2, body: {}, raw: {} })).toThrow(
+      QbiCodecError,
+    );
+
+    expect(() =>
+      createQbiLogDecoder({
+        registry,
+        codecs: { QX: { logs: { Missing: { decode: () => 0 } } } },
+      }),
+    ).toThrow("unknown log: QX.Missing");
+  });
 });
@@ -26,6 +26,12 @@ export type QbiFile = Readonly<{
     contractId?: string;
   }>;
   entries: readonly QbiEntry[];
+  logs?: readonly QbiLogEntry[];
+}>;
+
+export type QbiLogEntry = Readonly<{
+  name: string;
+  logType: number;
 }>;
 
 export type QbiRegistry = Readonly<{
@@ -47,9 +53,26 @@ type QbiCodecLike = Readonly<{
   decode(entry: QbiEntry, bytes: Uint8Array): unknown;
 }>;
 
+/** A log as delivered by QubicBob; `body` is the log payload, `raw` the whole message. */
+export type QbiLogInput = Readonly<{
+  scIndex: number;
+  logType: number;
+  body: Readonly<Record<string, unknown>>;
+  raw: Readonly<Record<string, unknown>>;
+}>;
+
+export type QbiLogCodec<Output = unknown> = Readonly<{
+  decode(entry: QbiLogEntry, log: QbiLogInput): Output;
+}>;
+
+type QbiLogCodecLike = Readonly<{
+  decode(entry: QbiLogEntry, log: QbiLogInput): unknown;
+}>;
+
 export type QbiContractCodecs = Readonly<{
   functions?: Readonly<Record<string, QbiCodecLike>>;
   procedures?: Readonly<Record<string, QbiCodecLike>>;
+  logs?: Readonly<Record<string, QbiLogCodecLike>>;
 }>;
 
 export type QbiCodecRegistry = Readonly<Record<string, QbiContractCodecs>>;
@@ -63,6 +86,24 @@ type QbiCodecOutput<T> = T extends { decode(entry: QbiEntry, bytes: Uint8Array):
   ? Output
   : unknown;
 
+type QbiLogCodecs<C> = C extends { logs?: infer L } ? L : undefined;
+type QbiLogCodecOutput<T> = T extends { decode(entry: QbiLogEntry, log: QbiLogInput): infer Output }
+  ? Output
+  : unknown;
+
+type QbiContractLogEvent<Contract extends string, C> = QbiLogCodecs<C> extends Record<
+  string,
+  unknown
+>
+  ? {
+      [Name in keyof QbiLogCodecs<C> & string]: QbiDecodedLog<
+        Contract,
+        Name,
+        QbiLogCodecOutput<QbiLogCodecs<C>[Name]>
+      >;
+    }[keyof QbiLogCodecs<C> & string]
+  : never;
+
 type QbiFunctionInput<C, Name extends string> = QbiFunctionCodecs<C> extends Record<string, unknown>
   ? Name extends keyof QbiFunctionCodecs<C>
     ? QbiCodecInput<QbiFunctionCodecs<C>[Name]>
@@ -100,6 +141,42 @@ export type QbiQueryInput<Input = unknown, Output = unknown> = Readonly<{
 
 export type QbiQueryResult<Output = unknown> = QueryRawResult & Readonly<{ decoded?: Output }>;
 
+export type QbiDecodedLog<
+  Contract extends string = string,
+  Name extends string = string,
+  Value = unknown,
+> = Readonly<{
+  contract: Contract;
+  name: Name;
+  value: Value;
+}>;
+
+/** Union of `{ contract, name, value }` for every log codec in `TCodecs`. */
+export type QbiLogEvent<TCodecs extends QbiCodecRegistry | undefined = undefined> =
+  TCodecs extends QbiCodecRegistry
+    ? {
+        [Contract in keyof TCodecs & string]: QbiContractLogEvent<Contract, TCodecs[Contract]>;
+      }[keyof TCodecs & string]
+    : QbiDecodedLog;
+
+export type QbiLogDecoderConfig<TCodecs extends QbiCodecRegistry | undefined = undefined> =
+  Readonly<{
+    registry: QbiRegistry;
+    codecs?: TCodecs;
+  }>;
+
+export type QbiLogDecoder<TCodecs extends QbiCodecRegistry | undefined = undefined> = Readonly<{
+  /**
+   * Decodes a log with the codec registered for its contract (by `scIndex`) and log type.
+   * Returns `undefined` when no codec covers it; throws `QbiCodecError` if the codec fails.
+   */
+  decode(log: QbiLogInput): QbiLogEvent<TCodecs> | undefined;
+  getLogEntry(
+    scIndex: number,
+    logType: number,
+  ): Readonly<{ contract: QbiFile["contract"]; entry: QbiLogEntry }> | undefined;
+}>;
+
 export class QbiError extends Error {
   override name = "QbiError";
 }
@@ -213,6 +290,45 @@ export function createQbiRegistry(input: QbiRegistryInput): QbiRegistry {
   return { byName, byIndex };
 }
 
+export function createQbiLogDecoder<TCodecs extends QbiCodecRegistry>(
+  config: QbiLogDecoderConfig<TCodecs> & { codecs: TCodecs },
+): QbiLogDecoder<TCodecs>;
+export function createQbiLogDecoder(
+  config: QbiLogDecoderConfig<QbiCodecRegistry | undefined>,
+): QbiLogDecoder;
+export function createQbiLogDecoder<TCodecs extends QbiCodecRegistry | undefined = undefined>(
+  config: QbiLogDecoderConfig<TCodecs>,
+): QbiLogDecoder<TCodecs> {
+  const { registry } = config;
+  validateCodecs(config.codecs, registry);
+
+  const getLogEntry = (scIndex: number, logType: number) => {
+    const file = registry.byIndex.get(scIndex);
+    const entry = file?.logs?.find((e) => e.logType === logType);
+    return file && entry ? { contract: file.contract, entry } : undefined;
+  };
+
+  return {
+    getLogEntry,
+    decode(log: QbiLogInput) {
+      const found = getLogEntry(log.scIndex, log.logType);
+      if (!found) return undefined;
+      const { contract, entry } = found;
+      const codec = config.codecs?.[contract.name]?.logs?.[entry.name];
+      if (!codec) return undefined;
+      let value: unknown;
+      try {
+        value = codec.decode(entry, log);
+      } catch (error) {
+        throw new QbiCodecError(
+          `QBI log codec decode failed (${contract.name}.${entry.name}): ${String(error)}`,
+        );
+      }
+      return { contract: contract.name, name: entry.name, value } as QbiLogEvent<TCodecs>;
+    },
+  };
+}
+
 export function createQbiHelpers(config: QbiHelpersConfig): QbiHelpers;
 export function createQbiHelpers<TCodecs extends QbiCodecRegistry>(
   config: QbiHelpersConfig<TCodecs> & { codecs: TCodecs },
@@ -531,6 +647,13 @@ function validateCodecs(codecs: QbiCodecRegistry | undefined, registry: QbiRegis
     }
     validateCodecEntries(file, contractCodecs.functions, "function", contractName);
     validateCodecEntries(file, contractCodecs.procedures, "procedure", contractName);
+    for (const logName of Object.keys(contractCodecs.logs ?? {})) {
+      if (!file.logs?.some((e) => e.name === logName)) {
+        throw new QbiCodecValidationError(
+          `QBI codecs reference unknown log: ${contractName}.${logName}`,
+        );
+      }
+    }
   }
 }
 
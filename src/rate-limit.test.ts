@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { createRateLimiter } from "./rate-limit.js";
+
+describe("rate limiter", () => {
+  it("allows a burst and then refills at the configured rate", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 100, burst: 2 });
+    const start = Date.now();
+    for (let i = 0; i < 4; i++) (await limiter.acquire())();
+    // Two tokens up front, then ~10ms per token.
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  it("caps concurrent holders", async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 2 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+    let acquired = false;
+    const third = limiter.acquire().then((release) => {
+      acquired = true;
+      return release;
+    });
+    await Promise.resolve();
+    expect(acquired).toBe(false);
+    expect(limiter.pending()).toBe(1);
+
+    first();
+    (await third)();
+    expect(acquired).toBe(true);
+    expect(limiter.active()).toBe(1);
+  });
+
+  it("drops aborted waiters from the queue", async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(waiting).rejects.toThrow("stop");
+    expect(limiter.pending()).toBe(0);
+    release();
+    expect(limiter.active()).toBe(0);
+  });
+
+  it("rejects invalid limits", () => {
+    expect(() => createRateLimiter({ requestsPerSecond: 0 })).toThrow(RangeError);
+    expect(() => createRateLimiter({ maxConcurrent: 1.5 })).toThrow(RangeError);
+  });
+});
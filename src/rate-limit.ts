@@ -0,0 +1,106 @@
+export type RateLimitConfig = Readonly<{
+  /** Sustained request rate (token refill per second). Unlimited when omitted. */
+  requestsPerSecond?: number;
+  /** Bucket size, i.e. requests allowed back-to-back (default: `ceil(requestsPerSecond)`). */
+  burst?: number;
+  /** Maximum number of HTTP attempts in flight. Unlimited when omitted. */
+  maxConcurrent?: number;
+}>;
+
+export type RateLimiter = Readonly<{
+  /**
+   * Waits for a token and a concurrency slot; call the returned function when the request
+   * has finished. Rejects with `signal.reason` if aborted while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void>;
+  pending(): number;
+  active(): number;
+}>;
+
+type Waiter = {
+  resolve: (release: () => void) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+export function createRateLimiter(config: RateLimitConfig = {}): RateLimiter {
+  const rate = config.requestsPerSecond;
+  if (rate !== undefined && (!Number.isFinite(rate) || rate <= 0)) {
+    throw new RangeError("requestsPerSecond must be > 0");
+  }
+  const burst = config.burst ?? (rate !== undefined ? Math.max(1, Math.ceil(rate)) : 1);
+  if (!Number.isInteger(burst) || burst <= 0) {
+    throw new RangeError("burst must be a positive integer");
+  }
+  const maxConcurrent = config.maxConcurrent ?? Number.POSITIVE_INFINITY;
+  if (
+    maxConcurrent !== Number.POSITIVE_INFINITY &&
+    (!Number.isInteger(maxConcurrent) || maxConcurrent <= 0)
+  ) {
+    throw new RangeError("maxConcurrent must be a positive integer");
+  }
+
+  let tokens = burst;
+  let refilledAtMs = Date.now();
+  let inFlight = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const queue: Waiter[] = [];
+
+  const refill = () => {
+    if (rate === undefined) return;
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - refilledAtMs) / 1_000) * rate);
+    refilledAtMs = now;
+  };
+
+  const release = () => {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      inFlight -= 1;
+      drain();
+    };
+  };
+
+  const drain = () => {
+    refill();
+    while (queue.length > 0 && inFlight < maxConcurrent && (rate === undefined || tokens >= 1)) {
+      const waiter = queue.shift() as Waiter;
+      if (waiter.onAbort) waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      if (rate !== undefined) tokens -= 1;
+      inFlight += 1;
+      waiter.resolve(release());
+    }
+    // Only a token shortage needs a timer; a free slot re-drains on release.
+    if (queue.length > 0 && inFlight < maxConcurrent && rate !== undefined && timer === undefined) {
+      const waitMs = Math.ceil(((1 - tokens) / rate) * 1_000);
+      timer = setTimeout(() => {
+        timer = undefined;
+        drain();
+      }, waitMs);
+    }
+  };
+
+  return {
+    acquire(signal?: AbortSignal): Promise<() => void> {
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      return new Promise((resolve, reject) => {
+        const waiter: Waiter = { resolve, signal };
+        if (signal) {
+          waiter.onAbort = () => {
+            const index = queue.indexOf(waiter);
+            if (index >= 0) queue.splice(index, 1);
+            reject(signal.reason);
+          };
+          signal.addEventListener("abort", waiter.onAbort, { once: true });
+        }
+        queue.push(waiter);
+        drain();
+      });
+    },
+
+    pending: () => queue.length,
+    active: () => inFlight,
+  };
+}
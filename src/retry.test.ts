@@ -0,0 +1,13 @@
+import { describe, expect, it } from "bun:test";
+import { parseRetryAfter } from "./retry.js";
+
+describe("parseRetryAfter", () => {
+  it("parses delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2_000);
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5_000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter("1.5")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
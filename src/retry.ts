@@ -5,6 +5,8 @@ export type RetryConfig = Readonly<{
   jitterMs?: number;
   retryOnStatuses?: readonly number[];
   retryOnMethods?: readonly string[];
+  /** Longest `Retry-After` to wait for; longer hints fail immediately (default: 30_000). */
+  maxRetryAfterMs?: number;
 }>;
 
 export type RetryConfigNormalized = Readonly<{
@@ -14,6 +16,7 @@ export type RetryConfigNormalized = Readonly<{
   jitterMs: number;
   retryOnStatuses: readonly number[];
   retryOnMethods: readonly string[];
+  maxRetryAfterMs: number;
 }>;
 
 const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504] as const;
@@ -26,14 +29,23 @@ export function normalizeRetryConfig(input?: RetryConfig): RetryConfigNormalized
     jitterMs: input?.jitterMs ?? 100,
     retryOnStatuses: input?.retryOnStatuses ?? DEFAULT_RETRY_STATUSES,
     retryOnMethods: input?.retryOnMethods ?? ["GET", "POST"],
+    maxRetryAfterMs: input?.maxRetryAfterMs ?? 30_000,
   };
 }
 
+export type WithRetryOptions = Readonly<{
+  /** Stops retrying once aborted; the last error is rethrown. */
+  signal?: AbortSignal;
+  /** Server-requested delay for a failed attempt (e.g. from `Retry-After`), in ms. */
+  retryAfterMs?: (error: unknown) => number | undefined;
+}>;
+
 export async function withRetry<T>(
   config: RetryConfigNormalized,
   method: string,
   run: () => Promise<T>,
   shouldRetry: (error: unknown) => boolean,
+  options: WithRetryOptions = {},
 ): Promise<T> {
   let attempt = 0;
   while (true) {
@@ -43,19 +55,46 @@ export async function withRetry<T>(
       if (attempt >= config.maxRetries) throw error;
       if (!config.retryOnMethods.includes(method)) throw error;
       if (!shouldRetry(error)) throw error;
-      const delay = computeDelay(config, attempt);
-      await sleep(delay);
+      if (options.signal?.aborted) throw error;
+      const retryAfterMs = options.retryAfterMs?.(error);
+      if (retryAfterMs !== undefined && retryAfterMs > config.maxRetryAfterMs) throw error;
+      const delay = Math.max(computeDelay(config, attempt), retryAfterMs ?? 0);
+      await sleep(delay, options.signal);
+      if (options.signal?.aborted) throw error;
       attempt += 1;
     }
   }
 }
 
+/** Parses a `Retry-After` header (delay-seconds or HTTP-date) into milliseconds. */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  nowMs = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1_000;
+  const dateMs = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : Number.NaN;
+  if (Number.isNaN(dateMs)) return undefined;
+  return Math.max(0, dateMs - nowMs);
+}
+
 function computeDelay(config: RetryConfigNormalized, attempt: number): number {
   const base = Math.min(config.baseDelayMs * 2 ** attempt, config.maxDelayMs);
   const jitter = config.jitterMs > 0 ? Math.floor(Math.random() * config.jitterMs) : 0;
   return base + jitter;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(id);
+      resolve();
+    };
+    const id = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
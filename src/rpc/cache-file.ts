@@ -0,0 +1,58 @@
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isNotFoundError } from "../storage.js";
+import { deserializeCacheValue, type RpcCacheStore, serializeCacheValue } from "./cache.js";
+
+export type FileRpcCacheConfig = Readonly<{
+  /** Directory holding one JSON file per cache entry (created on first write). */
+  dir: string;
+}>;
+
+export function createFileRpcCache(config: FileRpcCacheConfig): RpcCacheStore {
+  const pathFor = (key: string) => join(config.dir, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get(key: string): Promise<unknown> {
+      let text: string;
+      try {
+        text = await readFile(pathFor(key), "utf8");
+      } catch (error) {
+        if (isNotFoundError(error)) return undefined;
+        throw error;
+      }
+      try {
+        return deserializeCacheValue(text);
+      } catch {
+        // A corrupt entry is treated as a miss and overwritten on the next store.
+        return undefined;
+      }
+    },
+
+    async set(key: string, value: unknown) {
+      await mkdir(config.dir, { recursive: true });
+      const path = pathFor(key);
+      const tmpPath = `${path}.${crypto.randomUUID()}.tmp`;
+      await writeFile(tmpPath, serializeCacheValue(value), "utf8");
+      await rename(tmpPath, path);
+    },
+
+    async delete(key: string) {
+      await unlink(pathFor(key)).catch((error: unknown) => {
+        if (!isNotFoundError(error)) throw error;
+      });
+    },
+
+    async clear() {
+      let names: string[];
+      try {
+        names = await readdir(config.dir);
+      } catch (error) {
+        if (isNotFoundError(error)) return;
+        throw error;
+      }
+      await Promise.all(
+        names.filter((n) => n.endsWith(".json")).map((n) => unlink(join(config.dir, n))),
+      );
+    },
+  };
+}
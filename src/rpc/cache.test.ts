@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FetchLike } from "../http.js";
+import { createMemoryRpcCache, deserializeCacheValue, serializeCacheValue } from "./cache.js";
+import { createFileRpcCache } from "./cache-file.js";
+import { createRpcClient } from "./client.js";
+
+let currentDir: string | undefined;
+
+afterEach(async () => {
+  if (currentDir) {
+    await rm(currentDir, { recursive: true, force: true });
+    currentDir = undefined;
+  }
+});
+
+function createArchiveFetch(lastProcessedTick: number) {
+  const calls = { tickData: 0, lastProcessed: 0 };
+  const fetch: FetchLike = async (input) => {
+    const url = new URL(typeof input === "string" ? input : input.toString());
+    if (url.pathname === "/query/v1/getLastProcessedTick") {
+      calls.lastProcessed++;
+      return Response.json({ tickNumber: lastProcessedTick, epoch: 5, intervalInitialTick: 0 });
+    }
+    if (url.pathname === "/query/v1/getTickData") {
+      calls.tickData++;
+      return Response.json({
+        tickData: {
+          tickNumber: 10,
+          epoch: 5,
+          computorIndex: 1,
+          timestamp: "1700000000",
+          varStruct: "",
+          timeLock: "",
+          transactionHashes: ["h1"],
+          contractFees: ["18446744073709551615"],
+          signature: "SIG",
+        },
+      });
+    }
+    return new Response("not found", { status: 404 });
+  };
+  return { fetch, calls };
+}
+
+describe("rpc cache", () => {
+  it("serves finalized tick data from the cache", async () => {
+    const { fetch, calls } = createArchiveFetch(20);
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch, cache: {} });
+
+    const first = await rpc.query.getTickData(10);
+    const second = await rpc.query.getTickData(10n);
+
+    expect(second).toEqual(first);
+    expect(calls.tickData).toBe(1);
+    expect(calls.lastProcessed).toBe(1);
+  });
+
+  it("does not cache ticks the archive has not processed yet", async () => {
+    const { fetch, calls } = createArchiveFetch(5);
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch, cache: {} });
+
+    await rpc.query.getTickData(10);
+    await rpc.query.getTickData(10);
+
+    expect(calls.tickData).toBe(2);
+  });
+
+  it("evicts least recently used entries", () => {
+    const store = createMemoryRpcCache({ maxEntries: 2 });
+    store.set("a", 1);
+    store.set("b", 2);
+    store.get("a");
+    store.set("c", 3);
+    expect(store.get("a")).toBe(1);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBe(3);
+  });
+
+  it("round-trips bigints and bytes", () => {
+    const value = { tick: 2n ** 64n, fees: [1n], bytes: new Uint8Array([1, 2]), name: "x" };
+    expect(deserializeCacheValue(serializeCacheValue(value))).toEqual(value);
+  });
+
+  it("persists entries in a file-backed store", async () => {
+    currentDir = await mkdtemp(join(tmpdir(), "sdk-rpc-cache-"));
+    const { fetch, calls } = createArchiveFetch(20);
+    const options = { store: createFileRpcCache({ dir: currentDir }), keyPrefix: "mainnet:" };
+
+    const first = await createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      cache: options,
+    }).query.getTickData(10);
+    const second = await createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      cache: options,
+    }).query.getTickData(10);
+
+    expect(second).toEqual(first);
+    expect(second.contractFees[0]).toBe(18446744073709551615n);
+    expect(calls.tickData).toBe(1);
+  });
+});
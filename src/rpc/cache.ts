@@ -0,0 +1,76 @@
+export type RpcCacheStore = Readonly<{
+  get(key: string): unknown | Promise<unknown>;
+  set(key: string, value: unknown): void | Promise<void>;
+  delete?(key: string): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}>;
+
+export type RpcCacheConfig = Readonly<{
+  /** Storage backend (default: in-memory LRU with 1_000 entries). */
+  store?: RpcCacheStore;
+  /** Prefix for cache keys, e.g. to separate networks sharing one store. */
+  keyPrefix?: string;
+}>;
+
+export type MemoryRpcCacheConfig = Readonly<{
+  /** Maximum number of entries before the least recently used one is evicted. */
+  maxEntries?: number;
+}>;
+
+export function createMemoryRpcCache(config: MemoryRpcCacheConfig = {}): RpcCacheStore {
+  const maxEntries = config.maxEntries ?? 1_000;
+  if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+    throw new RangeError("maxEntries must be a positive integer");
+  }
+  const entries = new Map<string, unknown>();
+
+  return {
+    get(key: string): unknown {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key);
+      // Re-insert to mark as most recently used.
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set(key: string, value: unknown) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next();
+        if (oldest.done) break;
+        entries.delete(oldest.value);
+      }
+    },
+    delete(key: string) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+const BIGINT_TAG = "$bigint";
+const BYTES_TAG = "$bytes";
+
+/** JSON serialization that round-trips `bigint` and `Uint8Array` values. */
+export function serializeCacheValue(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (typeof v === "bigint") return { [BIGINT_TAG]: v.toString(10) };
+    if (v instanceof Uint8Array) return { [BYTES_TAG]: Array.from(v) };
+    return v;
+  });
+}
+
+export function deserializeCacheValue(text: string): unknown {
+  return JSON.parse(text, (_key, v: unknown) => {
+    if (v === null || typeof v !== "object" || Array.isArray(v)) return v;
+    const obj = v as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    if (keys.length !== 1) return v;
+    if (typeof obj[BIGINT_TAG] === "string") return BigInt(obj[BIGINT_TAG]);
+    if (Array.isArray(obj[BYTES_TAG])) return new Uint8Array(obj[BYTES_TAG] as number[]);
+    return v;
+  });
+}
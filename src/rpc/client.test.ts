@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test";
+import { CircuitOpenError, createCircuitBreaker } from "../circuit-breaker.js";
 import type { FetchLike } from "../http.js";
 import { createRpcClient, RpcError } from "./client.js";
 
@@ -232,6 +233,369 @@ describe("rpc client", () => {
     expect(tickInfo.tick).toBe(123n);
   });
 
+  it("waits for Retry-After before retrying a 429", async () => {
+    const attemptsAt: number[] = [];
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      attemptsAt.push(Date.now());
+      if (attemptsAt.length === 1) {
+        return new Response("slow down", { status: 429, headers: { "retry-after": "1" } });
+      }
+      return inner(input, init);
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      retry: { maxRetries: 1, baseDelayMs: 1, jitterMs: 0 },
+    });
+    await rpc.live.tickInfo();
+    expect(attemptsAt.length).toBe(2);
+    expect((attemptsAt[1] ?? 0) - (attemptsAt[0] ?? 0)).toBeGreaterThanOrEqual(990);
+  });
+
+  it("fails fast when Retry-After exceeds maxRetryAfterMs", async () => {
+    let attempts = 0;
+    const fetch: FetchLike = async () => {
+      attempts += 1;
+      return new Response("slow down", { status: 429, headers: { "retry-after": "120" } });
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      retry: { maxRetries: 3, baseDelayMs: 1, jitterMs: 0 },
+    });
+    const error = await rpc.live.tickInfo().catch((err: unknown) => err);
+    expect((error as RpcError).details.retryAfterMs).toBe(120_000);
+    expect(attempts).toBe(1);
+  });
+
+  it("limits concurrent requests with rateLimit.maxConcurrent", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active -= 1;
+      return inner(input, init);
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      rateLimit: { maxConcurrent: 1 },
+    });
+    await Promise.all(["A", "B", "C"].map((id) => rpc.live.balance(id)));
+    expect(maxActive).toBe(1);
+  });
+
+  it("fails over to the next endpoint on 5xx and stays there", async () => {
+    const hosts: string[] = [];
+    const healthy = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      const url = new URL(getUrl(input));
+      hosts.push(url.host);
+      if (url.host === "primary.test") {
+        return new Response("bad gateway", { status: 502 });
+      }
+      return healthy(input, init);
+    };
+    const failovers: string[] = [];
+    const rpc = createRpcClient({
+      endpoints: [
+        { url: "https://backup.test", priority: 1 },
+        { url: "https://primary.test", priority: 0 },
+      ],
+      failover: { onFailover: (info) => failovers.push(`${info.from} -> ${info.to}`) },
+      fetch,
+    });
+
+    const tickInfo = await rpc.live.tickInfo();
+    expect(tickInfo.tick).toBe(123n);
+    await rpc.query.getTransactionByHash("deadbeef");
+
+    expect(hosts).toEqual(["primary.test", "backup.test", "backup.test"]);
+    expect(failovers).toEqual(["https://primary.test/ -> https://backup.test/"]);
+    expect(rpc.endpoints.active()).toBe("https://backup.test/");
+    const status = rpc.endpoints.status();
+    expect(status.find((e) => e.url === "https://primary.test/")?.healthy).toBe(false);
+  });
+
+  it("does not fail over on 4xx responses", async () => {
+    const hosts: string[] = [];
+    const fetch: FetchLike = async (input) => {
+      hosts.push(new URL(getUrl(input)).host);
+      return new Response("not found", { status: 404 });
+    };
+    const rpc = createRpcClient({
+      endpoints: ["https://primary.test", "https://backup.test"],
+      fetch,
+    });
+
+    await expect(rpc.query.getTransactionByHash("missing")).rejects.toBeInstanceOf(RpcError);
+    expect(hosts).toEqual(["primary.test"]);
+    expect(rpc.endpoints.active()).toBe("https://primary.test/");
+  });
+
+  it("skips endpoints whose circuit is open", async () => {
+    const hosts: string[] = [];
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      const url = new URL(getUrl(input));
+      hosts.push(url.host);
+      if (url.host === "down.test") return new Response("unavailable", { status: 503 });
+      return inner(input, init);
+    };
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 60_000 });
+    const rpc = createRpcClient({
+      endpoints: ["https://down.test", "https://up.test"],
+      failover: { sticky: false },
+      circuitBreaker,
+      fetch,
+    });
+
+    await rpc.live.tickInfo();
+    await rpc.live.tickInfo();
+    expect(hosts).toEqual(["down.test", "up.test", "up.test"]);
+    expect(circuitBreaker.state("rpc:https://down.test/")).toBe("open");
+  });
+
+  it("fails fast with circuit_open when every endpoint is open", async () => {
+    let attempts = 0;
+    const fetch: FetchLike = async () => {
+      attempts += 1;
+      return new Response("unavailable", { status: 503 });
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      circuitBreaker: createCircuitBreaker({ failureThreshold: 2 }),
+      retry: { maxRetries: 5, baseDelayMs: 1, jitterMs: 0 },
+      fetch,
+    });
+
+    const error = await rpc.live.tickInfo().catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(attempts).toBe(2);
+  });
+
+  it("records probe results from checkHealth", async () => {
+    const fetch: FetchLike = async (input, init) => {
+      const url = new URL(getUrl(input));
+      if (url.host === "down.test") throw new Error("connection refused");
+      return createTestFetch()(input, init);
+    };
+    const rpc = createRpcClient({
+      endpoints: ["https://up.test", "https://down.test"],
+      fetch,
+    });
+
+    const status = await rpc.endpoints.checkHealth();
+    expect(status.map((e) => [e.url, e.healthy, e.lastTick])).toEqual([
+      ["https://up.test/", true, 123n],
+      ["https://down.test/", false, undefined],
+    ]);
+  });
+
+  it("times out hung requests with rpc_timeout", async () => {
+    const fetch: FetchLike = () => new Promise<Response>(() => {});
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch, timeoutMs: 5 });
+    const error = await rpc.live.tickInfo().catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(RpcError);
+    expect((error as RpcError).code).toBe("rpc_timeout");
+  });
+
+  it("cancels in-flight requests when the signal aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const fetch: FetchLike = (_input, init) => {
+      fetchSignal = init?.signal ?? undefined;
+      return new Promise<Response>(() => {});
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const controller = new AbortController();
+    const pending = rpc.query.getLastProcessedTick({ signal: controller.signal });
+    controller.abort();
+
+    const error = await pending.catch((err: unknown) => err);
+    expect((error as RpcError).code).toBe("rpc_aborted");
+    expect(fetchSignal?.aborted).toBe(true);
+  });
+
+  it("stops retrying once the signal aborts", async () => {
+    let attempts = 0;
+    const controller = new AbortController();
+    const fetch: FetchLike = async () => {
+      attempts += 1;
+      controller.abort();
+      return new Response("unavailable", { status: 503 });
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      retry: { maxRetries: 5, baseDelayMs: 1, jitterMs: 0 },
+    });
+
+    const error = await rpc.live
+      .tickInfo({ signal: controller.signal })
+      .catch((err: unknown) => err);
+    expect((error as RpcError).code).toBe("rpc_aborted");
+    expect(attempts).toBe(1);
+  });
+
+  it("shares one in-flight tickInfo and balance request between concurrent callers", async () => {
+    const paths: string[] = [];
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      paths.push(new URL(getUrl(input)).pathname);
+      return inner(input, init);
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+
+    const [a, b] = await Promise.all([rpc.live.tickInfo(), rpc.live.tickInfo()]);
+    expect(a).toBe(b);
+    await Promise.all([rpc.live.balance("A"), rpc.live.balance("A"), rpc.live.balance("B")]);
+    await rpc.live.tickInfo();
+    expect(paths).toEqual([
+      "/live/v1/tick-info",
+      "/live/v1/balances/A",
+      "/live/v1/balances/B",
+      "/live/v1/tick-info",
+    ]);
+  });
+
+  it("reuses coalesced results within the configured ttl", async () => {
+    let calls = 0;
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      calls += 1;
+      return inner(input, init);
+    };
+    const rpc = createRpcClient({
+      baseUrl: "https://example.test",
+      fetch,
+      coalesce: { tickInfoTtlMs: 60_000 },
+    });
+    await rpc.live.tickInfo();
+    await rpc.live.tickInfo();
+    expect(calls).toBe(1);
+  });
+
+  it("keeps the shared request alive until every caller aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    let resolveFetch: ((res: Response) => void) | undefined;
+    const fetch: FetchLike = (_input, init) => {
+      fetchSignal = init?.signal ?? undefined;
+      return new Promise<Response>((resolve) => {
+        resolveFetch = resolve;
+      });
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const first = new AbortController();
+    const second = new AbortController();
+    const pendingFirst = rpc.live.tickInfo({ signal: first.signal });
+    const pendingSecond = rpc.live.tickInfo({ signal: second.signal });
+    await Promise.resolve();
+
+    first.abort();
+    const error = await pendingFirst.catch((err: unknown) => err);
+    expect((error as RpcError).code).toBe("rpc_aborted");
+    expect(fetchSignal?.aborted).toBe(false);
+
+    resolveFetch?.(Response.json({ tickInfo: { tick: 1, duration: 1, epoch: 1, initialTick: 1 } }));
+    await expect(pendingSecond).resolves.toMatchObject({ tick: 1n });
+  });
+
+  it("fetches balances for many identities with bounded concurrency", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const inner = createTestFetch();
+    const fetch: FetchLike = async (input, init) => {
+      const url = new URL(getUrl(input));
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active -= 1;
+      if (url.pathname.endsWith("/BAD")) return new Response("bad", { status: 400 });
+      return inner(input, init);
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+
+    const ids = ["A", "B", "C", "D", "E", "BAD", "A"];
+    const result = await rpc.live.balances(ids, { concurrency: 2 });
+    expect(maxActive).toBe(2);
+    expect([...result.balances.keys()].sort()).toEqual(["A", "B", "C", "D", "E"]);
+    expect(result.balances.get("C")?.balance).toBe(1000n);
+    expect([...result.errors.keys()]).toEqual(["BAD"]);
+    expect((result.errors.get("BAD") as RpcError).details.status).toBe(400);
+    expect(result.validForTick).toBe(123n);
+    expect(result.consistent).toBe(true);
+  });
+
+  it("re-fetches balances that lag the newest validForTick", async () => {
+    const calls = new Map<string, number>();
+    const fetch: FetchLike = async (input) => {
+      const id = decodeURIComponent(new URL(getUrl(input)).pathname.split("/").pop() ?? "");
+      const n = (calls.get(id) ?? 0) + 1;
+      calls.set(id, n);
+      // "LAG" is one tick behind on its first lookup only; "STUCK" never catches up.
+      const validForTick = id === "STUCK" || (id === "LAG" && n === 1) ? 99 : 100;
+      return Response.json({
+        balance: {
+          id,
+          balance: "1",
+          validForTick,
+          latestIncomingTransferTick: 0,
+          latestOutgoingTransferTick: 0,
+          incomingAmount: "0",
+          outgoingAmount: "0",
+          numberOfIncomingTransfers: 0,
+          numberOfOutgoingTransfers: 0,
+        },
+      });
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+
+    const synced = await rpc.live.balances(["A", "LAG"]);
+    expect(synced.consistent).toBe(true);
+    expect(synced.balances.get("LAG")?.validForTick).toBe(100n);
+    expect(calls.get("LAG")).toBe(2);
+
+    const stuck = await rpc.live.balances(["A", "STUCK"], { maxRefetchRounds: 1 });
+    expect(stuck.consistent).toBe(false);
+    expect(stuck.validForTick).toBe(100n);
+    expect(calls.get("STUCK")).toBe(2);
+  });
+
+  it("reports a straggler whose re-fetch fails only as an error", async () => {
+    const calls = new Map<string, number>();
+    const fetch: FetchLike = async (input) => {
+      const id = decodeURIComponent(new URL(getUrl(input)).pathname.split("/").pop() ?? "");
+      const n = (calls.get(id) ?? 0) + 1;
+      calls.set(id, n);
+      if (id === "lag" && n > 1) return new Response("down", { status: 400 });
+      return Response.json({
+        balance: {
+          // The server answers with a normalised id rather than the requested one.
+          id: id.toUpperCase(),
+          balance: "1",
+          validForTick: id === "lag" ? 99 : 100,
+          latestIncomingTransferTick: 0,
+          latestOutgoingTransferTick: 0,
+          incomingAmount: "0",
+          outgoingAmount: "0",
+          numberOfIncomingTransfers: 0,
+          numberOfOutgoingTransfers: 0,
+        },
+      });
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+
+    const result = await rpc.live.balances(["a", "lag"], { maxRefetchRounds: 1 });
+    expect(calls.get("lag")).toBe(2);
+    expect([...result.balances.keys()]).toEqual(["a"]);
+    expect([...result.errors.keys()]).toEqual(["lag"]);
+    expect(result.consistent).toBe(true);
+  });
+
   it("paginates transactions for identity", async () => {
     const rpc = createRpcClient({
       baseUrl: "https://example.test",
@@ -1,6 +1,18 @@
+import { type CircuitBreaker, CircuitOpenError } from "../circuit-breaker.js";
+import { type Coalescer, createCoalescer } from "../coalesce.js";
 import { SdkError } from "../errors.js";
-import type { FetchLike } from "../http.js";
-import { normalizeRetryConfig, type RetryConfig, withRetry } from "../retry.js";
+import { createRequestSignal, type FetchLike, type RequestOptions, raceSignal } from "../http.js";
+import { composeMiddleware, type Middleware } from "../middleware.js";
+import { createRateLimiter, type RateLimitConfig } from "../rate-limit.js";
+import { normalizeRetryConfig, parseRetryAfter, type RetryConfig, withRetry } from "../retry.js";
+import { createMemoryRpcCache, type RpcCacheConfig } from "./cache.js";
+import {
+  createEndpointPool,
+  type EndpointState,
+  type RpcEndpoint,
+  type RpcEndpointStatus,
+  type RpcFailoverConfig,
+} from "./endpoints.js";
 
 export type RpcClientConfig = Readonly<{
   /**
@@ -9,9 +21,36 @@ export type RpcClientConfig = Readonly<{
    * those suffixes are stripped automatically.
    */
   baseUrl?: string;
+  /**
+   * Multiple RPC endpoints with optional priorities. When set, `baseUrl` is ignored and
+   * requests fail over to the next endpoint on 5xx/408 responses and network errors.
+   */
+  endpoints?: readonly (string | RpcEndpoint)[];
+  failover?: RpcFailoverConfig;
+  /**
+   * Opt-in cache for finalized query responses (`getTickData`, `getTransactionsForTick`,
+   * `getComputorListsForEpoch`). Entries are stored only once the tick is processed.
+   */
+  cache?: RpcCacheConfig;
+  /**
+   * Concurrent `live.tickInfo()` / `live.balance(id)` calls share one request
+   * (default: enabled, no TTL).
+   */
+  coalesce?: RpcCoalesceConfig;
   fetch?: FetchLike;
   headers?: Readonly<Record<string, string>>;
   retry?: RetryConfig;
+  /** Token-bucket rate and concurrency limits applied to every HTTP attempt, retries included. */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Fails fast with `circuit_open` for endpoints that keep failing (keys: `rpc:<url>`);
+   * open circuits are skipped during failover.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /** Runs around every HTTP attempt, in order; may rewrite the request or short-circuit it. */
+  middleware?: readonly Middleware[];
+  /** Default per-attempt timeout in ms (default: 30_000). Use 0 to disable. */
+  timeoutMs?: number;
   onRequest?: (info: Readonly<{ url: string; method: string; body?: unknown }>) => void;
   onResponse?: (
     info: Readonly<{
@@ -25,6 +64,15 @@ export type RpcClientConfig = Readonly<{
   onError?: (error: RpcError) => void;
 }>;
 
+export type RpcCoalesceConfig = Readonly<{
+  /** Share in-flight requests between concurrent callers (default: true). */
+  enabled?: boolean;
+  /** Reuse a settled `tickInfo` result for this long in ms (default: 0). */
+  tickInfoTtlMs?: number;
+  /** Reuse a settled per-identity `balance` result for this long in ms (default: 0). */
+  balanceTtlMs?: number;
+}>;
+
 export class RpcError extends SdkError {
   override name = "RpcError";
 
@@ -37,6 +85,8 @@ export class RpcError extends SdkError {
       status?: number;
       statusText?: string;
       bodyText?: string;
+      /** Parsed `Retry-After` header of a failed response, in ms. */
+      retryAfterMs?: number;
     }>,
     cause?: unknown,
   ) {
@@ -63,6 +113,27 @@ export type LiveBalance = Readonly<{
   numberOfOutgoingTransfers: bigint;
 }>;
 
+export type LiveBalancesOptions = RequestOptions &
+  Readonly<{
+    /** Maximum number of balance requests in flight (default: 8). */
+    concurrency?: number;
+    /**
+     * Rounds of re-fetching identities whose `validForTick` lags the newest one seen
+     * (default: 2; 0 only reports the mismatch via `consistent`).
+     */
+    maxRefetchRounds?: number;
+  }>;
+
+export type LiveBalancesResult = Readonly<{
+  balances: Map<string, LiveBalance>;
+  /** Identities whose lookup failed, with the last error. */
+  errors: Map<string, unknown>;
+  /** Newest `validForTick` among the fetched balances. */
+  validForTick?: bigint;
+  /** True when every fetched balance has the same `validForTick`. */
+  consistent: boolean;
+}>;
+
 export type BroadcastTransactionResult = Readonly<{
   peersBroadcasted: number;
   encodedTransaction: string;
@@ -147,169 +218,451 @@ export type TickData = Readonly<{
 
 export type RpcClient = Readonly<{
   live: Readonly<{
-    tickInfo(): Promise<TickInfo>;
-    balance(identity: string): Promise<LiveBalance>;
-    broadcastTransaction(tx: Uint8Array | string): Promise<BroadcastTransactionResult>;
-    querySmartContract(input: {
-      contractIndex: bigint | number;
-      inputType: bigint | number;
-      input: Uint8Array | string;
-    }): Promise<{ responseBytes: Uint8Array; responseBase64: string }>;
+    tickInfo(options?: RequestOptions): Promise<TickInfo>;
+    balance(identity: string, options?: RequestOptions): Promise<LiveBalance>;
+    balances(
+      identities: Iterable<string>,
+      options?: LiveBalancesOptions,
+    ): Promise<LiveBalancesResult>;
+    broadcastTransaction(
+      tx: Uint8Array | string,
+      options?: RequestOptions,
+    ): Promise<BroadcastTransactionResult>;
+    querySmartContract(
+      input: {
+        contractIndex: bigint | number;
+        inputType: bigint | number;
+        input: Uint8Array | string;
+      },
+      options?: RequestOptions,
+    ): Promise<{ responseBytes: Uint8Array; responseBase64: string }>;
   }>;
   query: Readonly<{
-    getLastProcessedTick(): Promise<LastProcessedTick>;
-    getTransactionByHash(hash: string): Promise<QueryTransaction>;
+    getLastProcessedTick(options?: RequestOptions): Promise<LastProcessedTick>;
+    getTransactionByHash(hash: string, options?: RequestOptions): Promise<QueryTransaction>;
     getTransactionsForIdentity(
       input: TransactionsForIdentityRequest,
+      options?: RequestOptions,
     ): Promise<TransactionsForIdentityResponse>;
     getTransactionsForIdentityPages(
       input: TransactionsForIdentityPagingInput,
+      options?: RequestOptions,
     ): AsyncGenerator<TransactionsForIdentityResponse, void, void>;
     getTransactionsForIdentityAll(
       input: TransactionsForIdentityPagingInput,
+      options?: RequestOptions,
+    ): Promise<readonly QueryTransaction[]>;
+    getTransactionsForTick(
+      tickNumber: bigint | number,
+      options?: RequestOptions,
     ): Promise<readonly QueryTransaction[]>;
-    getTransactionsForTick(tickNumber: bigint | number): Promise<readonly QueryTransaction[]>;
-    getTickData(tickNumber: bigint | number): Promise<TickData>;
-    getProcessedTickIntervals(): Promise<readonly ProcessedTickInterval[]>;
-    getComputorListsForEpoch(epoch: bigint | number): Promise<readonly ComputorList[]>;
+    getTickData(tickNumber: bigint | number, options?: RequestOptions): Promise<TickData>;
+    getProcessedTickIntervals(options?: RequestOptions): Promise<readonly ProcessedTickInterval[]>;
+    getComputorListsForEpoch(
+      epoch: bigint | number,
+      options?: RequestOptions,
+    ): Promise<readonly ComputorList[]>;
+  }>;
+  endpoints: Readonly<{
+    status(): readonly RpcEndpointStatus[];
+    /** URL of the endpoint currently receiving requests. */
+    active(): string;
+    /** Probes every endpoint via `live/v1/tick-info` and updates health. */
+    checkHealth(): Promise<readonly RpcEndpointStatus[]>;
+    /** Stops periodic health probes. */
+    close(): void;
   }>;
 }>;
 
 export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
-  const baseUrl = normalizeRpcBaseUrl(config.baseUrl ?? "https://rpc.qubic.org");
-  const base = new URL(ensureTrailingSlash(baseUrl));
+  const pool = createEndpointPool(
+    (config.endpoints ?? [config.baseUrl ?? "https://rpc.qubic.org"]).map((e) => {
+      const endpoint = typeof e === "string" ? { url: e } : e;
+      const url = normalizeRpcBaseUrl(endpoint.url);
+      return { url, base: new URL(url), priority: endpoint.priority };
+    }),
+    config.failover,
+  );
   const doFetch = config.fetch ?? fetch;
+  const dispatch = composeMiddleware(config.middleware ?? [], (ctx) =>
+    doFetch(ctx.url, {
+      method: ctx.method,
+      headers: ctx.headers,
+      body: ctx.body,
+      signal: ctx.signal,
+    }),
+  );
   const retryConfig = normalizeRetryConfig(config.retry);
+  const limiter = config.rateLimit ? createRateLimiter(config.rateLimit) : undefined;
+  const defaultTimeoutMs = config.timeoutMs ?? 30_000;
 
-  const requestJson = async (method: string, url: URL, body?: unknown): Promise<unknown> => {
-    return withRetry(
-      retryConfig,
-      method,
-      async () => {
-        const start = Date.now();
-        const headers: Record<string, string> = {
-          accept: "application/json",
-          ...config.headers,
-        };
-        let bodyText: string | undefined;
-        if (body !== undefined) {
-          headers["content-type"] = "application/json";
-          bodyText = JSON.stringify(body);
-        }
+  const send = async (
+    endpoint: EndpointState,
+    method: string,
+    path: string,
+    options: RequestOptions = {},
+    body?: unknown,
+  ): Promise<unknown> => {
+    const url = new URL(path, endpoint.base);
+    if (options.signal?.aborted) throw abortedError(url, method, options.signal.reason);
+    let release: (() => void) | undefined;
+    try {
+      release = await limiter?.acquire(options.signal);
+    } catch (error) {
+      throw abortedError(url, method, error);
+    }
+    // The timeout covers the HTTP attempt only, not time spent queued behind the limiter.
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    const request = createRequestSignal(options.signal, timeoutMs);
+    const start = Date.now();
+    const headers: Record<string, string> = {
+      accept: "application/json",
+      ...config.headers,
+    };
+    let bodyText: string | undefined;
+    if (body !== undefined) {
+      headers["content-type"] = "application/json";
+      bodyText = JSON.stringify(body);
+    }
 
-        try {
-          config.onRequest?.({ url: url.toString(), method, body });
-          const res = await doFetch(url, {
-            method,
-            headers,
-            body: bodyText,
-          });
-          config.onResponse?.({
+    try {
+      config.onRequest?.({ url: url.toString(), method, body });
+      const res = await raceSignal(
+        dispatch({
+          client: "rpc",
+          url,
+          method,
+          headers,
+          body: bodyText,
+          signal: request.signal,
+          state: {},
+        }),
+        request.signal,
+      );
+      config.onResponse?.({
+        url: url.toString(),
+        method,
+        status: res.status,
+        ok: res.ok,
+        durationMs: Date.now() - start,
+      });
+
+      const text = await raceSignal(res.text(), request.signal);
+      if (!res.ok) {
+        const error = new RpcError(
+          "rpc_request_failed",
+          `RPC request failed: ${res.status} ${res.statusText}`,
+          {
             url: url.toString(),
             method,
             status: res.status,
-            ok: res.ok,
-            durationMs: Date.now() - start,
-          });
+            statusText: res.statusText,
+            bodyText: text || undefined,
+            retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+          },
+        );
+        config.onError?.(error);
+        throw error;
+      }
 
-          const text = await res.text();
-          if (!res.ok) {
-            const error = new RpcError(
-              "rpc_request_failed",
-              `RPC request failed: ${res.status} ${res.statusText}`,
+      if (text.length === 0) return null;
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        const error = new RpcError("rpc_invalid_json", "RPC response was not valid JSON", {
+          url: url.toString(),
+          method,
+          status: res.status,
+          statusText: res.statusText,
+          bodyText: text || undefined,
+        });
+        config.onError?.(error);
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof RpcError) throw error;
+      const wrapped = request.timedOut()
+        ? new RpcError(
+            "rpc_timeout",
+            `RPC request timed out after ${timeoutMs}ms`,
+            { url: url.toString(), method },
+            error,
+          )
+        : options.signal?.aborted
+          ? abortedError(url, method, error)
+          : new RpcError(
+              "rpc_fetch_error",
+              "RPC fetch failed",
               {
                 url: url.toString(),
                 method,
-                status: res.status,
-                statusText: res.statusText,
-                bodyText: text || undefined,
               },
+              error,
             );
-            config.onError?.(error);
-            throw error;
-          }
+      config.onError?.(wrapped);
+      throw wrapped;
+    } finally {
+      request.cleanup();
+      release?.();
+    }
+  };
 
-          if (text.length === 0) return null;
-          try {
-            return JSON.parse(text) as unknown;
-          } catch {
-            const error = new RpcError("rpc_invalid_json", "RPC response was not valid JSON", {
-              url: url.toString(),
-              method,
-              status: res.status,
-              statusText: res.statusText,
-              bodyText: text || undefined,
-            });
-            config.onError?.(error);
-            throw error;
+  const requestJson = async (
+    method: string,
+    path: string,
+    options?: RequestOptions,
+    body?: unknown,
+  ): Promise<unknown> => {
+    const signal = options?.signal;
+    try {
+      return await withRetry(
+        retryConfig,
+        method,
+        async () => {
+          let lastError: unknown;
+          for (const endpoint of pool.candidates()) {
+            try {
+              const attempt = () => send(endpoint, method, path, options, body);
+              const json = config.circuitBreaker
+                ? await config.circuitBreaker.run(`rpc:${endpoint.base}`, attempt, shouldFailover)
+                : await attempt();
+              pool.reportSuccess(endpoint);
+              return json;
+            } catch (error) {
+              if (error instanceof CircuitOpenError) {
+                lastError = error;
+                continue;
+              }
+              if (!shouldFailover(error) || signal?.aborted) throw error;
+              pool.reportFailure(endpoint, error);
+              lastError = error;
+            }
           }
+          throw lastError;
+        },
+        (error) => shouldRetryRpc(error, retryConfig),
+        {
+          signal,
+          retryAfterMs: (error) =>
+            error instanceof RpcError ? error.details.retryAfterMs : undefined,
+        },
+      );
+    } catch (error) {
+      // Aborting while a retry is pending surfaces the abort, not the last failure.
+      if (signal?.aborted && !(error instanceof RpcError && error.code === "rpc_aborted")) {
+        throw abortedError(new URL(path, pool.active().base), method, error);
+      }
+      throw error;
+    }
+  };
+
+  const checkHealth = async (): Promise<readonly RpcEndpointStatus[]> => {
+    await Promise.all(
+      pool.endpoints.map(async (endpoint) => {
+        try {
+          const json = await send(endpoint, "GET", "live/v1/tick-info");
+          const tickInfo = expectObject(expectObject(json).tickInfo);
+          pool.reportProbe(endpoint, { tick: parseJsonInteger(tickInfo.tick, "tickInfo.tick") });
         } catch (error) {
-          if (error instanceof RpcError) throw error;
-          const wrapped = new RpcError(
-            "rpc_fetch_error",
-            "RPC fetch failed",
-            {
-              url: url.toString(),
-              method,
-            },
-            error,
-          );
-          config.onError?.(wrapped);
-          throw wrapped;
+          pool.reportProbe(endpoint, { error });
         }
-      },
-      (error) => shouldRetryRpc(error, retryConfig),
+      }),
     );
+    return pool.status();
+  };
+
+  const healthCheckIntervalMs = config.failover?.healthCheckIntervalMs ?? 0;
+  let healthTimer: ReturnType<typeof setInterval> | undefined;
+  if (healthCheckIntervalMs > 0 && pool.endpoints.length > 1) {
+    healthTimer = setInterval(() => void checkHealth(), healthCheckIntervalMs);
+    // Health probes must not keep the process alive on their own.
+    (healthTimer as { unref?: () => void }).unref?.();
+  }
+
+  const cacheStore = config.cache ? (config.cache.store ?? createMemoryRpcCache()) : undefined;
+  const cachePrefix = config.cache?.keyPrefix ?? "";
+  let lastProcessed: LastProcessedTick | undefined;
+
+  // Data for a tick is immutable once the archive has processed it; computor lists are
+  // immutable once their epoch has ended.
+  const isFinalized = async (
+    at: Readonly<{ tick: bigint } | { epoch: bigint }>,
+    options?: RequestOptions,
+  ): Promise<boolean> => {
+    const check = (processed: LastProcessedTick) =>
+      "tick" in at ? at.tick <= processed.tickNumber : at.epoch < processed.epoch;
+    if (lastProcessed && check(lastProcessed)) return true;
+    try {
+      await query.getLastProcessedTick(options);
+    } catch {
+      return false;
+    }
+    return lastProcessed ? check(lastProcessed) : false;
+  };
+
+  const cached = async <T>(
+    key: string,
+    at: Readonly<{ tick: bigint } | { epoch: bigint }>,
+    options: RequestOptions | undefined,
+    load: () => Promise<T>,
+  ): Promise<T> => {
+    if (!cacheStore) return load();
+    const cacheKey = `${cachePrefix}${key}`;
+    const hit = await Promise.resolve(cacheStore.get(cacheKey)).catch(() => undefined);
+    if (hit !== undefined) return hit as T;
+    const value = await load();
+    if (await isFinalized(at, options)) {
+      await Promise.resolve(cacheStore.set(cacheKey, value)).catch(() => undefined);
+    }
+    return value;
+  };
+
+  const fetchTickInfo = async (options?: RequestOptions): Promise<TickInfo> => {
+    const json = await requestJson("GET", "live/v1/tick-info", options);
+    const obj = expectObject(json);
+    const tickInfo = expectObject(obj.tickInfo);
+    return {
+      tick: parseJsonInteger(tickInfo.tick, "tickInfo.tick"),
+      duration: parseJsonInteger(tickInfo.duration, "tickInfo.duration"),
+      epoch: parseJsonInteger(tickInfo.epoch, "tickInfo.epoch"),
+      initialTick: parseJsonInteger(tickInfo.initialTick, "tickInfo.initialTick"),
+    };
+  };
+
+  const fetchBalance = async (identity: string, options?: RequestOptions): Promise<LiveBalance> => {
+    const json = await requestJson(
+      "GET",
+      `live/v1/balances/${encodeURIComponent(identity)}`,
+      options,
+    );
+    const obj = expectObject(json);
+    const bal = expectObject(obj.balance);
+    return {
+      id: expectString(bal.id, "balance.id"),
+      balance: parseJsonBigintString(bal.balance, "balance.balance"),
+      validForTick: parseJsonInteger(bal.validForTick, "balance.validForTick"),
+      latestIncomingTransferTick: parseJsonInteger(
+        bal.latestIncomingTransferTick,
+        "balance.latestIncomingTransferTick",
+      ),
+      latestOutgoingTransferTick: parseJsonInteger(
+        bal.latestOutgoingTransferTick,
+        "balance.latestOutgoingTransferTick",
+      ),
+      incomingAmount: parseJsonBigintString(bal.incomingAmount, "balance.incomingAmount"),
+      outgoingAmount: parseJsonBigintString(bal.outgoingAmount, "balance.outgoingAmount"),
+      numberOfIncomingTransfers: parseJsonInteger(
+        bal.numberOfIncomingTransfers,
+        "balance.numberOfIncomingTransfers",
+      ),
+      numberOfOutgoingTransfers: parseJsonInteger(
+        bal.numberOfOutgoingTransfers,
+        "balance.numberOfOutgoingTransfers",
+      ),
+    };
+  };
+
+  const coalesceEnabled = config.coalesce?.enabled ?? true;
+  const tickInfoCoalescer = createCoalescer<TickInfo>(config.coalesce?.tickInfoTtlMs ?? 0);
+  const balanceCoalescer = createCoalescer<LiveBalance>(config.coalesce?.balanceTtlMs ?? 0);
+
+  // A caller's signal only detaches that caller; the shared request is cancelled once every
+  // caller has aborted. A custom `timeoutMs` changes attempt semantics, so it is not shared.
+  const coalesced = async <T>(
+    coalescer: Coalescer<T>,
+    key: string,
+    path: string,
+    options: RequestOptions | undefined,
+    load: (options?: RequestOptions) => Promise<T>,
+  ): Promise<T> => {
+    if (!coalesceEnabled || options?.timeoutMs !== undefined) return load(options);
+    const signal = options?.signal;
+    try {
+      return await coalescer.run(key, (shared) => load({ signal: shared }), signal);
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof RpcError && error.code === "rpc_aborted")) {
+        throw abortedError(new URL(path, pool.active().base), "GET", error);
+      }
+      throw error;
+    }
   };
 
   const live = {
-    async tickInfo(): Promise<TickInfo> {
-      const url = new URL("live/v1/tick-info", base);
-      const json = await requestJson("GET", url);
-      const obj = expectObject(json);
-      const tickInfo = expectObject(obj.tickInfo);
-      return {
-        tick: parseJsonInteger(tickInfo.tick, "tickInfo.tick"),
-        duration: parseJsonInteger(tickInfo.duration, "tickInfo.duration"),
-        epoch: parseJsonInteger(tickInfo.epoch, "tickInfo.epoch"),
-        initialTick: parseJsonInteger(tickInfo.initialTick, "tickInfo.initialTick"),
-      };
+    async tickInfo(options?: RequestOptions): Promise<TickInfo> {
+      return coalesced(tickInfoCoalescer, "tickInfo", "live/v1/tick-info", options, fetchTickInfo);
     },
 
-    async balance(identity: string): Promise<LiveBalance> {
-      const url = new URL(`live/v1/balances/${encodeURIComponent(identity)}`, base);
-      const json = await requestJson("GET", url);
-      const obj = expectObject(json);
-      const bal = expectObject(obj.balance);
-      return {
-        id: expectString(bal.id, "balance.id"),
-        balance: parseJsonBigintString(bal.balance, "balance.balance"),
-        validForTick: parseJsonInteger(bal.validForTick, "balance.validForTick"),
-        latestIncomingTransferTick: parseJsonInteger(
-          bal.latestIncomingTransferTick,
-          "balance.latestIncomingTransferTick",
-        ),
-        latestOutgoingTransferTick: parseJsonInteger(
-          bal.latestOutgoingTransferTick,
-          "balance.latestOutgoingTransferTick",
-        ),
-        incomingAmount: parseJsonBigintString(bal.incomingAmount, "balance.incomingAmount"),
-        outgoingAmount: parseJsonBigintString(bal.outgoingAmount, "balance.outgoingAmount"),
-        numberOfIncomingTransfers: parseJsonInteger(
-          bal.numberOfIncomingTransfers,
-          "balance.numberOfIncomingTransfers",
-        ),
-        numberOfOutgoingTransfers: parseJsonInteger(
-          bal.numberOfOutgoingTransfers,
-          "balance.numberOfOutgoingTransfers",
-        ),
+    async balance(identity: string, options?: RequestOptions): Promise<LiveBalance> {
+      return coalesced(
+        balanceCoalescer,
+        identity,
+        `live/v1/balances/${encodeURIComponent(identity)}`,
+        options,
+        (opts) => fetchBalance(identity, opts),
+      );
+    },
+
+    async balances(
+      identities: Iterable<string>,
+      options: LiveBalancesOptions = {},
+    ): Promise<LiveBalancesResult> {
+      const concurrency = options.concurrency ?? 8;
+      if (!Number.isInteger(concurrency) || concurrency <= 0) {
+        throw new RangeError("concurrency must be a positive integer");
+      }
+      const maxRefetchRounds = options.maxRefetchRounds ?? 2;
+      if (!Number.isInteger(maxRefetchRounds) || maxRefetchRounds < 0) {
+        throw new RangeError("maxRefetchRounds must be a non-negative integer");
+      }
+      const requestOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+      const balances = new Map<string, LiveBalance>();
+      const errors = new Map<string, unknown>();
+
+      const fetchAll = async (ids: readonly string[], fresh: boolean) => {
+        await runConcurrently(ids, concurrency, async (id) => {
+          try {
+            // Re-fetches skip the coalescer so a cached straggler is not returned again.
+            const balance = fresh
+              ? await fetchBalance(id, requestOptions)
+              : await live.balance(id, requestOptions);
+            balances.set(id, balance);
+            errors.delete(id);
+          } catch (error) {
+            if (options.signal?.aborted) throw error;
+            // A failed re-fetch must not leave the lagging balance behind as if it were valid.
+            balances.delete(id);
+            errors.set(id, error);
+          }
+        });
       };
+
+      await fetchAll([...new Set(identities)], false);
+      for (let round = 0; ; round++) {
+        const newest = maxValidForTick(balances.values());
+        // Keyed by the requested identity; the server's `id` may be spelled differently.
+        const stragglers = [...balances]
+          .filter(([, b]) => b.validForTick !== newest)
+          .map(([id]) => id);
+        if (stragglers.length === 0 || round >= maxRefetchRounds) {
+          return {
+            balances,
+            errors,
+            validForTick: newest,
+            consistent: stragglers.length === 0,
+          };
+        }
+        await fetchAll(stragglers, true);
+      }
     },
 
-    async broadcastTransaction(tx: Uint8Array | string): Promise<BroadcastTransactionResult> {
+    async broadcastTransaction(
+      tx: Uint8Array | string,
+      options?: RequestOptions,
+    ): Promise<BroadcastTransactionResult> {
       const encodedTransaction = typeof tx === "string" ? tx : encodeBase64(tx);
-      const url = new URL("live/v1/broadcast-transaction", base);
-      const json = await requestJson("POST", url, { encodedTransaction });
+      const json = await requestJson("POST", "live/v1/broadcast-transaction", options, {
+        encodedTransaction,
+      });
       const obj = expectObject(json);
       return {
         peersBroadcasted: expectInt32(obj.peersBroadcasted, "peersBroadcasted"),
@@ -318,16 +671,18 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
       };
     },
 
-    async querySmartContract(input: {
-      contractIndex: bigint | number;
-      inputType: bigint | number;
-      input: Uint8Array | string;
-    }): Promise<{ responseBytes: Uint8Array; responseBase64: string }> {
+    async querySmartContract(
+      input: {
+        contractIndex: bigint | number;
+        inputType: bigint | number;
+        input: Uint8Array | string;
+      },
+      options?: RequestOptions,
+    ): Promise<{ responseBytes: Uint8Array; responseBase64: string }> {
       const requestBytes =
         typeof input.input === "string" ? decodeBase64(input.input) : input.input;
       const requestData = encodeBase64(requestBytes);
-      const url = new URL("live/v1/querySmartContract", base);
-      const json = await requestJson("POST", url, {
+      const json = await requestJson("POST", "live/v1/querySmartContract", options, {
         contractIndex: toJsonInteger(input.contractIndex),
         inputType: toJsonInteger(input.inputType),
         inputSize: toJsonInteger(requestBytes.byteLength),
@@ -340,28 +695,33 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
   } as const;
 
   const query = {
-    async getLastProcessedTick(): Promise<LastProcessedTick> {
-      const url = new URL("query/v1/getLastProcessedTick", base);
-      const json = await requestJson("GET", url);
+    async getLastProcessedTick(options?: RequestOptions): Promise<LastProcessedTick> {
+      const json = await requestJson("GET", "query/v1/getLastProcessedTick", options);
       const obj = expectObject(json);
-      return {
+      const result = {
         tickNumber: parseJsonInteger(obj.tickNumber, "tickNumber"),
         epoch: parseJsonInteger(obj.epoch, "epoch"),
         intervalInitialTick: parseJsonInteger(obj.intervalInitialTick, "intervalInitialTick"),
       };
+      if (!lastProcessed || result.tickNumber > lastProcessed.tickNumber) lastProcessed = result;
+      return result;
     },
 
-    async getTransactionByHash(hash: string): Promise<QueryTransaction> {
-      const url = new URL("query/v1/getTransactionByHash", base);
-      const json = await requestJson("POST", url, { hash });
+    async getTransactionByHash(hash: string, options?: RequestOptions): Promise<QueryTransaction> {
+      const json = await requestJson("POST", "query/v1/getTransactionByHash", options, { hash });
       return parseQueryTransaction(json, "transaction");
     },
 
     async getTransactionsForIdentity(
       input: TransactionsForIdentityRequest,
+      options?: RequestOptions,
     ): Promise<TransactionsForIdentityResponse> {
-      const url = new URL("query/v1/getTransactionsForIdentity", base);
-      const json = await requestJson("POST", url, serializeIdentityTxQuery(input));
+      const json = await requestJson(
+        "POST",
+        "query/v1/getTransactionsForIdentity",
+        options,
+        serializeIdentityTxQuery(input),
+      );
       const obj = expectObject(json);
       const hits = expectObject(obj.hits);
       const txs = expectArray(obj.transactions, "transactions").map((t, i) =>
@@ -380,41 +740,59 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
 
     async getTransactionsForTick(
       tickNumber: bigint | number,
+      options?: RequestOptions,
     ): Promise<readonly QueryTransaction[]> {
-      const url = new URL("query/v1/getTransactionsForTick", base);
-      const json = await requestJson("POST", url, { tickNumber: toJsonInteger(tickNumber) });
-      const obj = expectObject(json);
-      return expectArray(obj.transactions, "transactions").map((t, i) =>
-        parseQueryTransaction(t, `transactions[${i}]`),
+      return cached(
+        `getTransactionsForTick:${tickNumber}`,
+        { tick: toBigint(tickNumber) },
+        options,
+        async () => {
+          const json = await requestJson("POST", "query/v1/getTransactionsForTick", options, {
+            tickNumber: toJsonInteger(tickNumber),
+          });
+          const obj = expectObject(json);
+          return expectArray(obj.transactions, "transactions").map((t, i) =>
+            parseQueryTransaction(t, `transactions[${i}]`),
+          );
+        },
       );
     },
 
-    async getTickData(tickNumber: bigint | number): Promise<TickData> {
-      const url = new URL("query/v1/getTickData", base);
-      const json = await requestJson("POST", url, { tickNumber: toJsonInteger(tickNumber) });
-      const obj = expectObject(json);
-      const tickData = expectObject(obj.tickData);
-      return {
-        tickNumber: parseJsonInteger(tickData.tickNumber, "tickData.tickNumber"),
-        epoch: parseJsonInteger(tickData.epoch, "tickData.epoch"),
-        computorIndex: parseJsonInteger(tickData.computorIndex, "tickData.computorIndex"),
-        timestamp: parseJsonBigintString(tickData.timestamp, "tickData.timestamp"),
-        varStruct: expectString(tickData.varStruct, "tickData.varStruct"),
-        timeLock: expectString(tickData.timeLock, "tickData.timeLock"),
-        transactionHashes: expectArray(
-          tickData.transactionHashes,
-          "tickData.transactionHashes",
-        ).map((s, i) => expectString(s, `tickData.transactionHashes[${i}]`)),
-        contractFees: expectArray(tickData.contractFees, "tickData.contractFees").map((s, i) =>
-          parseJsonBigintString(s, `tickData.contractFees[${i}]`),
-        ),
-        signature: expectString(tickData.signature, "tickData.signature"),
-      };
+    async getTickData(tickNumber: bigint | number, options?: RequestOptions): Promise<TickData> {
+      return cached(
+        `getTickData:${tickNumber}`,
+        { tick: toBigint(tickNumber) },
+        options,
+        async () => {
+          const json = await requestJson("POST", "query/v1/getTickData", options, {
+            tickNumber: toJsonInteger(tickNumber),
+          });
+          const obj = expectObject(json);
+          const tickData = expectObject(obj.tickData);
+          return {
+            tickNumber: parseJsonInteger(tickData.tickNumber, "tickData.tickNumber"),
+            epoch: parseJsonInteger(tickData.epoch, "tickData.epoch"),
+            computorIndex: parseJsonInteger(tickData.computorIndex, "tickData.computorIndex"),
+            timestamp: parseJsonBigintString(tickData.timestamp, "tickData.timestamp"),
+            varStruct: expectString(tickData.varStruct, "tickData.varStruct"),
+            timeLock: expectString(tickData.timeLock, "tickData.timeLock"),
+            transactionHashes: expectArray(
+              tickData.transactionHashes,
+              "tickData.transactionHashes",
+            ).map((s, i) => expectString(s, `tickData.transactionHashes[${i}]`)),
+            contractFees: expectArray(tickData.contractFees, "tickData.contractFees").map((s, i) =>
+              parseJsonBigintString(s, `tickData.contractFees[${i}]`),
+            ),
+            signature: expectString(tickData.signature, "tickData.signature"),
+          };
+        },
+      );
     },
 
-    async getProcessedTickIntervals(): Promise<readonly ProcessedTickInterval[]> {
-      const url = new URL("query/v1/getProcessedTickIntervals", base);
-      const json = await requestJson("GET", url);
+    async getProcessedTickIntervals(
+      options?: RequestOptions,
+    ): Promise<readonly ProcessedTickInterval[]> {
+      const json = await requestJson("GET", "query/v1/getProcessedTickIntervals", options);
       const obj = expectObject(json);
       const intervals = expectArray(obj.processedTickIntervals, "processedTickIntervals");
       return intervals.map((i, idx) => {
@@ -430,25 +808,37 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
       });
     },
 
-    async getComputorListsForEpoch(epoch: bigint | number): Promise<readonly ComputorList[]> {
-      const url = new URL("query/v1/getComputorListsForEpoch", base);
-      const json = await requestJson("POST", url, { epoch: toJsonInteger(epoch) });
-      const obj = expectObject(json);
-      const lists = expectArray(obj.computorsLists, "computorsLists");
-      return lists.map((l, idx) => {
-        const list = expectObject(l, `computorsLists[${idx}]`);
-        return {
-          epoch: parseJsonInteger(list.epoch, `computorsLists[${idx}].epoch`),
-          tickNumber: parseJsonInteger(list.tickNumber, `computorsLists[${idx}].tickNumber`),
-          identities: expectArray(list.identities, `computorsLists[${idx}].identities`).map(
-            (s, j) => expectString(s, `computorsLists[${idx}].identities[${j}]`),
-          ),
-          signature: expectString(list.signature, `computorsLists[${idx}].signature`),
-        };
-      });
+    async getComputorListsForEpoch(
+      epoch: bigint | number,
+      options?: RequestOptions,
+    ): Promise<readonly ComputorList[]> {
+      return cached(
+        `getComputorListsForEpoch:${epoch}`,
+        { epoch: toBigint(epoch) },
+        options,
+        async () => {
+          const json = await requestJson("POST", "query/v1/getComputorListsForEpoch", options, {
+            epoch: toJsonInteger(epoch),
+          });
+          const obj = expectObject(json);
+          const lists = expectArray(obj.computorsLists, "computorsLists");
+          return lists.map((l, idx) => {
+            const list = expectObject(l, `computorsLists[${idx}]`);
+            return {
+              epoch: parseJsonInteger(list.epoch, `computorsLists[${idx}].epoch`),
+              tickNumber: parseJsonInteger(list.tickNumber, `computorsLists[${idx}].tickNumber`),
+              identities: expectArray(list.identities, `computorsLists[${idx}].identities`).map(
+                (s, j) => expectString(s, `computorsLists[${idx}].identities[${j}]`),
+              ),
+              signature: expectString(list.signature, `computorsLists[${idx}].signature`),
+            };
+          });
+        },
+      );
     },
     async *getTransactionsForIdentityPages(
       input: TransactionsForIdentityPagingInput,
+      options?: RequestOptions,
     ): AsyncGenerator<TransactionsForIdentityResponse, void, void> {
       let offset = toBigintPagination(input.offset ?? input.pagination?.offset ?? 0);
       const pageSize = toBigintPagination(input.pageSize ?? input.pagination?.size ?? 100);
@@ -459,12 +849,15 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
         if (limit !== undefined && consumed >= limit) return;
         const remaining = limit !== undefined ? limit - consumed : undefined;
         const size = remaining !== undefined ? minBigint(pageSize, remaining) : pageSize;
-        const response = await query.getTransactionsForIdentity({
-          identity: input.identity,
-          filters: input.filters,
-          ranges: input.ranges,
-          pagination: { offset, size },
-        });
+        const response = await query.getTransactionsForIdentity(
+          {
+            identity: input.identity,
+            filters: input.filters,
+            ranges: input.ranges,
+            pagination: { offset, size },
+          },
+          options,
+        );
         yield response;
         const got = BigInt(response.transactions.length);
         consumed += got;
@@ -475,21 +868,66 @@ export function createRpcClient(config: RpcClientConfig = {}): RpcClient {
     },
     async getTransactionsForIdentityAll(
       input: TransactionsForIdentityPagingInput,
+      options?: RequestOptions,
     ): Promise<readonly QueryTransaction[]> {
       const out: QueryTransaction[] = [];
-      for await (const page of query.getTransactionsForIdentityPages(input)) {
+      for await (const page of query.getTransactionsForIdentityPages(input, options)) {
         out.push(...page.transactions);
       }
       return out;
     },
   } as const;
 
-  return { live, query };
+  const endpoints = {
+    status: () => pool.status(),
+    active: () => pool.active().url,
+    checkHealth,
+    close() {
+      if (healthTimer !== undefined) clearInterval(healthTimer);
+      healthTimer = undefined;
+    },
+  } as const;
+
+  return { live, query, endpoints };
+}
+
+async function runConcurrently<T>(
+  items: readonly T[],
+  concurrency: number,
+  run: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++] as T;
+      await run(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+function maxValidForTick(balances: Iterable<LiveBalance>): bigint | undefined {
+  let max: bigint | undefined;
+  for (const b of balances) {
+    if (max === undefined || b.validForTick > max) max = b.validForTick;
+  }
+  return max;
+}
+
+function abortedError(url: URL, method: string, cause: unknown): RpcError {
+  return new RpcError("rpc_aborted", "RPC request aborted", { url: url.toString(), method }, cause);
+}
+
+function shouldFailover(error: unknown): boolean {
+  if (!(error instanceof RpcError)) return false;
+  if (error.code === "rpc_fetch_error" || error.code === "rpc_timeout") return true;
+  const status = error.details.status;
+  return typeof status === "number" && (status === 408 || status >= 500);
 }
 
 function shouldRetryRpc(error: unknown, config: ReturnType<typeof normalizeRetryConfig>): boolean {
   if (!(error instanceof RpcError)) return false;
-  if (error.code === "rpc_fetch_error") return true;
+  if (error.code === "rpc_fetch_error" || error.code === "rpc_timeout") return true;
   const status = error.details.status;
   return typeof status === "number" && config.retryOnStatuses.includes(status);
 }
@@ -502,6 +940,14 @@ function toBigintPagination(value: bigint | number): bigint {
   return BigInt(value);
 }
 
+function toBigint(value: bigint | number): bigint {
+  if (typeof value === "bigint") return value;
+  if (!Number.isFinite(value) || !Number.isInteger(value)) {
+    throw new TypeError("Expected an integer");
+  }
+  return BigInt(value);
+}
+
 function minBigint(a: bigint, b: bigint): bigint {
   return a < b ? a : b;
 }
@@ -0,0 +1,138 @@
+export type RpcEndpoint = Readonly<{
+  /** RPC base URL (same rules as `RpcClientConfig.baseUrl`). */
+  url: string;
+  /** Lower values are preferred (default: position in the list). */
+  priority?: number;
+}>;
+
+export type RpcFailoverConfig = Readonly<{
+  /** Interval between `live.tickInfo()` health probes in ms (default: 0, disabled). */
+  healthCheckIntervalMs?: number;
+  /** How long a failed endpoint is skipped before it is tried again (default: 30_000). */
+  cooldownMs?: number;
+  /**
+   * Keep using the active endpoint until it fails (default: true).
+   * When false, every request goes to the highest-priority healthy endpoint.
+   */
+  sticky?: boolean;
+  onFailover?: (info: Readonly<{ from: string; to: string; error: unknown }>) => void;
+}>;
+
+export type RpcEndpointStatus = Readonly<{
+  url: string;
+  priority: number;
+  healthy: boolean;
+  active: boolean;
+  /** Tick reported by the last successful health probe. */
+  lastTick?: bigint;
+  lastError?: unknown;
+  failedAtMs?: number;
+}>;
+
+export type EndpointState = {
+  readonly url: string;
+  readonly base: URL;
+  readonly priority: number;
+  readonly order: number;
+  healthy: boolean;
+  lastTick?: bigint;
+  lastError?: unknown;
+  failedAtMs?: number;
+};
+
+export type EndpointPool = Readonly<{
+  endpoints: readonly EndpointState[];
+  candidates(): readonly EndpointState[];
+  reportSuccess(endpoint: EndpointState): void;
+  reportFailure(endpoint: EndpointState, error: unknown): void;
+  reportProbe(endpoint: EndpointState, result: { tick: bigint } | { error: unknown }): void;
+  status(): readonly RpcEndpointStatus[];
+  active(): EndpointState;
+}>;
+
+export function createEndpointPool(
+  endpoints: readonly Readonly<{ url: string; base: URL; priority?: number }>[],
+  config: RpcFailoverConfig = {},
+): EndpointPool {
+  if (endpoints.length === 0) throw new TypeError("At least one RPC endpoint is required");
+  const cooldownMs = config.cooldownMs ?? 30_000;
+  const sticky = config.sticky ?? true;
+
+  const states: EndpointState[] = endpoints
+    .map((e, order) => ({
+      url: e.url,
+      base: e.base,
+      priority: e.priority ?? order,
+      order,
+      healthy: true,
+    }))
+    .sort((a, b) => a.priority - b.priority || a.order - b.order);
+
+  let active = states[0] as EndpointState;
+
+  const isAvailable = (e: EndpointState, now: number): boolean =>
+    e.healthy || (e.failedAtMs !== undefined && now - e.failedAtMs >= cooldownMs);
+
+  return {
+    endpoints: states,
+
+    candidates(): readonly EndpointState[] {
+      const now = Date.now();
+      const available = states.filter((e) => isAvailable(e, now));
+      const ordered =
+        sticky && available.includes(active)
+          ? [active, ...available.filter((e) => e !== active)]
+          : available;
+      // Unavailable endpoints are still tried as a last resort.
+      return [...ordered, ...states.filter((e) => !ordered.includes(e))];
+    },
+
+    reportSuccess(endpoint: EndpointState) {
+      endpoint.healthy = true;
+      endpoint.lastError = undefined;
+      endpoint.failedAtMs = undefined;
+      active = sticky ? endpoint : (states.find((e) => isAvailable(e, Date.now())) ?? endpoint);
+    },
+
+    reportFailure(endpoint: EndpointState, error: unknown) {
+      endpoint.healthy = false;
+      endpoint.lastError = error;
+      endpoint.failedAtMs = Date.now();
+      if (endpoint !== active) return;
+      const now = Date.now();
+      const next = states.find((e) => e !== endpoint && isAvailable(e, now));
+      if (!next) return;
+      active = next;
+      config.onFailover?.({ from: endpoint.url, to: next.url, error });
+    },
+
+    reportProbe(endpoint: EndpointState, result: { tick: bigint } | { error: unknown }) {
+      if ("tick" in result) {
+        endpoint.healthy = true;
+        endpoint.lastTick = result.tick;
+        endpoint.lastError = undefined;
+        endpoint.failedAtMs = undefined;
+        return;
+      }
+      endpoint.healthy = false;
+      endpoint.lastError = result.error;
+      endpoint.failedAtMs = Date.now();
+    },
+
+    status(): readonly RpcEndpointStatus[] {
+      return states.map((e) => ({
+        url: e.url,
+        priority: e.priority,
+        healthy: e.healthy,
+        active: e === active,
+        lastTick: e.lastTick,
+        lastError: e.lastError,
+        failedAtMs: e.failedAtMs,
+      }));
+    },
+
+    active(): EndpointState {
+      return active;
+    },
+  };
+}
@@ -8,6 +8,7 @@ describe("sdk scaffold", () => {
     expect(sdk).toHaveProperty("tx");
     expect(sdk).toHaveProperty("txQueue");
     expect(sdk).toHaveProperty("tick");
+    expect(sdk).toHaveProperty("tickWatcher");
     expect(sdk).toHaveProperty("transactions");
     expect(sdk).toHaveProperty("transfers");
     expect(sdk).toHaveProperty("contracts");
@@ -1,16 +1,41 @@
 import { createAssetsHelpers } from "./assets.js";
 import { createBobClient } from "./bob/client.js";
+import { type CircuitBreakerConfig, createCircuitBreaker } from "./circuit-breaker.js";
 import { createContractHelpers } from "./contracts.js";
 import type { FetchLike } from "./http.js";
-import { createQbiHelpers, createQbiRegistry, type QbiCodecRegistry, type QbiFile } from "./qbi.js";
+import type { Middleware } from "./middleware.js";
+import {
+  createQbiHelpers,
+  createQbiLogDecoder,
+  createQbiRegistry,
+  type QbiCodecRegistry,
+  type QbiFile,
+} from "./qbi.js";
+import type { RateLimitConfig } from "./rate-limit.js";
 import type { RetryConfig } from "./retry.js";
-import { createRpcClient } from "./rpc/client.js";
-import { createTickHelpers } from "./tick.js";
+import type { RpcCacheConfig } from "./rpc/cache.js";
+import { createRpcClient, type RpcCoalesceConfig } from "./rpc/client.js";
+import type { RpcEndpoint, RpcFailoverConfig } from "./rpc/endpoints.js";
+import {
+  type AdaptiveTickOffsetConfig,
+  createTickHelpers,
+  type EpochBoundaryConfig,
+} from "./tick.js";
+import { createTickWatcher } from "./tick-watcher.js";
 import { createTransactionHelpers } from "./transactions.js";
 import { createTransferHelpers } from "./transfers.js";
-import { createTxConfirmationHelpers } from "./tx/confirm.js";
+import {
+  createTxConfirmationHelpers,
+  type ProcessedTickSource,
+  type TxConfirmationStrategy,
+} from "./tx/confirm.js";
 import { createTxHelpers } from "./tx/tx.js";
-import type { TxQueuePolicy } from "./tx/tx-queue.js";
+import type {
+  TxQueueFairness,
+  TxQueuePolicy,
+  TxQueueRetention,
+  TxQueueStore,
+} from "./tx/tx-queue.js";
 import { TxQueue } from "./tx/tx-queue.js";
 import type { SeedVault } from "./vault/types.js";
 
@@ -19,22 +44,55 @@ export type SdkConfig = Readonly<{
   baseUrl?: string;
   /** Optional custom fetch implementation (for testing, instrumentation, etc). */
   fetch?: FetchLike;
+  /** One circuit breaker shared by the RPC and Bob clients, keyed per endpoint. */
+  circuitBreaker?: CircuitBreakerConfig;
   rpc?: Readonly<{
+    /** Multiple RPC endpoints with failover (overrides `baseUrl`). */
+    endpoints?: readonly (string | RpcEndpoint)[];
+    failover?: RpcFailoverConfig;
+    cache?: RpcCacheConfig;
+    coalesce?: RpcCoalesceConfig;
     headers?: Readonly<Record<string, string>>;
     retry?: RetryConfig;
+    rateLimit?: RateLimitConfig;
+    timeoutMs?: number;
+    middleware?: readonly Middleware[];
   }>;
   tick?: Readonly<{
     minOffset?: bigint | number;
     defaultOffset?: bigint | number;
     maxOffset?: bigint | number;
+    tickInfoMaxAgeMs?: number;
+    /** Picks the offset from measured tick rate and broadcast latency (see `AdaptiveTickOffsetConfig`). */
+    adaptive?: boolean | AdaptiveTickOffsetConfig;
+    /** Rejects or clamps suggested targets past the expected end of the epoch. */
+    epochBoundary?: EpochBoundaryConfig;
+    /** Poll interval of the shared tick watcher (default: `tx.confirmPollIntervalMs` or 1_000). */
+    watchIntervalMs?: number;
   }>;
   tx?: Readonly<{
     confirmTimeoutMs?: number;
     confirmPollIntervalMs?: number;
+    /**
+     * Default: `push` when `tickSource` is set, otherwise `poll`. `push` without a `tickSource`
+     * listens to `sdk.tickWatcher`.
+     */
+    confirmStrategy?: TxConfirmationStrategy;
+    /** Processed-tick feed for the `push` strategy, e.g. `createLogStreamTickSource(stream)`. */
+    tickSource?: ProcessedTickSource;
+    pushStaleAfterMs?: number;
   }>;
   txQueue?: Readonly<{
     enabled?: boolean;
     policy?: TxQueuePolicy;
+    /** e.g. `createFileTxQueueStore(path)`; unconfirmed items resume after a restart. */
+    store?: TxQueueStore;
+    onStoreError?: (error: unknown) => void;
+    /** Default: the newest 100 finished items per source when a `store` is set. */
+    retention?: TxQueueRetention;
+    maxWaitMs?: number;
+    maxConcurrentSubmits?: number;
+    fairness?: TxQueueFairness;
   }>;
   contracts?: Readonly<{
     defaultRetries?: number;
@@ -53,27 +111,54 @@ export type SdkConfig = Readonly<{
     fetch?: FetchLike;
     headers?: Readonly<Record<string, string>>;
     retry?: RetryConfig;
+    rateLimit?: RateLimitConfig;
+    timeoutMs?: number;
+    middleware?: readonly Middleware[];
   }>;
 }>;
 
 export function createSdk(config: SdkConfig = {}) {
+  const circuitBreaker = config.circuitBreaker
+    ? createCircuitBreaker(config.circuitBreaker)
+    : undefined;
   const rpc = createRpcClient({
     baseUrl: config.baseUrl,
+    endpoints: config.rpc?.endpoints,
+    failover: config.rpc?.failover,
+    cache: config.rpc?.cache,
+    coalesce: config.rpc?.coalesce,
     fetch: config.fetch,
     headers: config.rpc?.headers,
     retry: config.rpc?.retry,
+    rateLimit: config.rpc?.rateLimit,
+    circuitBreaker,
+    timeoutMs: config.rpc?.timeoutMs,
+    middleware: config.rpc?.middleware,
+  });
+  const tickWatcher = createTickWatcher({
+    rpc,
+    pollIntervalMs: config.tick?.watchIntervalMs ?? config.tx?.confirmPollIntervalMs,
   });
   const tick = createTickHelpers({
     rpc,
+    tickWatcher,
     minOffset: config.tick?.minOffset,
     defaultOffset: config.tick?.defaultOffset,
     maxOffset: config.tick?.maxOffset,
+    tickInfoMaxAgeMs: config.tick?.tickInfoMaxAgeMs,
+    adaptive: config.tick?.adaptive,
+    epochBoundary: config.tick?.epochBoundary,
   });
 
   const confirm = createTxConfirmationHelpers({
     rpc,
     defaultTimeoutMs: config.tx?.confirmTimeoutMs,
     defaultPollIntervalMs: config.tx?.confirmPollIntervalMs,
+    strategy: config.tx?.confirmStrategy,
+    tickWatcher,
+    tickSource:
+      config.tx?.tickSource ?? (config.tx?.confirmStrategy === "push" ? tickWatcher : undefined),
+    pushStaleAfterMs: config.tx?.pushStaleAfterMs,
   });
   const tx = createTxHelpers({ rpc, confirm });
   const contracts = createContractHelpers({
@@ -87,39 +172,64 @@ export function createSdk(config: SdkConfig = {}) {
       ? undefined
       : new TxQueue({
           policy: config.txQueue?.policy,
+          store: config.txQueue?.store,
+          onStoreError: config.txQueue?.onStoreError,
+          retention: config.txQueue?.retention,
+          maxWaitMs: config.txQueue?.maxWaitMs,
+          maxConcurrentSubmits: config.txQueue?.maxConcurrentSubmits,
+          fairness: config.txQueue?.fairness,
           confirm: ({ txId, targetTick, signal }) =>
             tx.waitForConfirmation({ txId, targetTick, signal }),
         });
 
-  const transactions = createTransactionHelpers({ tick, tx, txQueue, vault: config.vault });
+  const transactions = createTransactionHelpers({
+    tick,
+    tx,
+    txQueue,
+    vault: config.vault,
+    tickWatcher,
+  });
   const transfers = createTransferHelpers({ transactions });
   const assets = config.assets?.requestAssets
     ? createAssetsHelpers({ requestAssets: config.assets.requestAssets })
     : undefined;
-  const qbi = config.qbi?.files
-    ? config.qbi.codecs
+  const qbiRegistry = config.qbi?.files
+    ? createQbiRegistry({ files: config.qbi.files })
+    : undefined;
+  const qbi = qbiRegistry
+    ? config.qbi?.codecs
       ? createQbiHelpers({
           contracts,
-          registry: createQbiRegistry({ files: config.qbi.files }),
+          registry: qbiRegistry,
           transactions,
           codecs: config.qbi.codecs,
         })
       : createQbiHelpers({
           contracts,
-          registry: createQbiRegistry({ files: config.qbi.files }),
+          registry: qbiRegistry,
           transactions,
         })
     : undefined;
+  // Pass to `createLogStream({ logDecoder })` to decode streamed logs the same way.
+  const logDecoder = qbiRegistry
+    ? createQbiLogDecoder({ registry: qbiRegistry, codecs: config.qbi?.codecs })
+    : undefined;
   const bob = createBobClient({
     baseUrl: config.bob?.baseUrl,
     fetch: config.bob?.fetch ?? config.fetch,
     headers: config.bob?.headers,
     retry: config.bob?.retry,
+    rateLimit: config.bob?.rateLimit,
+    circuitBreaker,
+    timeoutMs: config.bob?.timeoutMs,
+    middleware: config.bob?.middleware,
+    logDecoder,
   });
   const vault = config.vault;
   return {
     rpc,
     tick,
+    tickWatcher,
     tx,
     txQueue,
     transactions,
@@ -127,7 +237,9 @@ export function createSdk(config: SdkConfig = {}) {
     contracts,
     assets,
     qbi,
+    logDecoder,
     vault,
     bob,
+    circuitBreaker,
   } as const;
 }
@@ -0,0 +1,42 @@
+import { open, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** The subset of `bun:sqlite`, `node:sqlite` and `better-sqlite3` databases the stores use. */
+export type SqliteDatabaseLike = Readonly<{
+  exec(sql: string): unknown;
+  prepare(sql: string): Readonly<{
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): unknown;
+  }>;
+}>;
+
+/**
+ * Writes `text` to a temporary file that is fsynced and renamed over `path`, so a crash
+ * leaves either the old or the new contents on disk, never a torn file. Concurrent writes
+ * to the same `path` share the temporary file and must be serialized by the caller.
+ */
+export async function writeFileAtomic(path: string, text: string): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  const handle = await open(tmpPath, "w");
+  try {
+    await handle.writeFile(text, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tmpPath, path);
+  // Persist the rename itself; not every platform can open a directory for syncing.
+  const dir = await open(dirname(path), "r").catch(() => undefined);
+  if (!dir) return;
+  try {
+    await dir.sync();
+  } catch {
+    // Ignored: the file contents are already durable.
+  } finally {
+    await dir.close();
+  }
+}
+
+export function isNotFoundError(error: unknown): error is { code: string } {
+  return !!error && typeof error === "object" && (error as { code?: unknown }).code === "ENOENT";
+}
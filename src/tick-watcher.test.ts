@@ -0,0 +1,157 @@
+import { describe, expect, it } from "bun:test";
+import type { RpcClient } from "./rpc/client.js";
+import { createTickWatcher, type EpochChange } from "./tick-watcher.js";
+
+type Chain = { tick: bigint; processed: bigint; epoch: bigint };
+
+function createChainRpc(chain: Chain, calls: string[]): RpcClient {
+  return {
+    live: {
+      async tickInfo() {
+        calls.push("tickInfo");
+        return { tick: chain.tick, duration: 0n, epoch: chain.epoch, initialTick: 0n };
+      },
+      async balance() {
+        throw new Error("not implemented");
+      },
+      async balances() {
+        throw new Error("not implemented");
+      },
+      async broadcastTransaction() {
+        throw new Error("not implemented");
+      },
+      async querySmartContract() {
+        throw new Error("not implemented");
+      },
+    },
+    query: {
+      async getLastProcessedTick() {
+        calls.push("getLastProcessedTick");
+        return { tickNumber: chain.processed, epoch: chain.epoch, intervalInitialTick: 0n };
+      },
+      async getTransactionByHash() {
+        throw new Error("not implemented");
+      },
+      async getTransactionsForIdentity() {
+        throw new Error("not implemented");
+      },
+      async *getTransactionsForIdentityPages() {
+        yield* [];
+        throw new Error("not implemented");
+      },
+      async getTransactionsForIdentityAll() {
+        throw new Error("not implemented");
+      },
+      async getTransactionsForTick() {
+        throw new Error("not implemented");
+      },
+      async getTickData() {
+        throw new Error("not implemented");
+      },
+      async getProcessedTickIntervals() {
+        throw new Error("not implemented");
+      },
+      async getComputorListsForEpoch() {
+        throw new Error("not implemented");
+      },
+    },
+    endpoints: {
+      status() {
+        return [];
+      },
+      active() {
+        return "https://example.test/";
+      },
+      async checkHealth() {
+        return [];
+      },
+      close() {},
+    },
+  };
+}
+
+describe("tick watcher", () => {
+  it("shares one poll between concurrent waiters and stops when idle", async () => {
+    const chain: Chain = { tick: 100n, processed: 98n, epoch: 1n };
+    const calls: string[] = [];
+    const watcher = createTickWatcher({ rpc: createChainRpc(chain, calls), pollIntervalMs: 5 });
+
+    const current = watcher.waitForTick(102);
+    const processed = watcher.waitForTick(101, { processed: true });
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    expect(calls).toEqual(["tickInfo", "getLastProcessedTick"]);
+    expect(watcher.snapshot()).toEqual({
+      currentTick: 100n,
+      lastProcessedTick: 98n,
+      epoch: 1n,
+      initialTick: 0n,
+      tickDuration: 0n,
+    });
+
+    chain.tick = 103n;
+    chain.processed = 101n;
+    expect(await current).toBe(103n);
+    expect(await processed).toBe(101n);
+
+    const polled = calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(calls.length).toBe(polled);
+  });
+
+  it("emits epoch changes and feeds processed-tick subscribers", async () => {
+    const chain: Chain = { tick: 100n, processed: 99n, epoch: 1n };
+    const watcher = createTickWatcher({ rpc: createChainRpc(chain, []), pollIntervalMs: 5 });
+    const changes: EpochChange[] = [];
+    const ticks: bigint[] = [];
+    const detachEpoch = watcher.onEpochChange((change) => changes.push(change));
+    const detachTicks = watcher.subscribe((tick) => ticks.push(tick));
+    await new Promise((resolve) => setTimeout(resolve, 1));
+
+    chain.epoch = 2n;
+    chain.tick = 200n;
+    chain.processed = 199n;
+    await watcher.waitForTick(199, { processed: true });
+    detachEpoch();
+    detachTicks();
+
+    expect(changes).toEqual([{ from: 1n, to: 2n, tick: 200n }]);
+    expect(ticks[0]).toBe(99n);
+    expect(ticks.at(-1)).toBe(199n);
+    expect(watcher.epoch).toBe(2n);
+  });
+
+  it("reuses a fresh current tick and rejects aborted waits", async () => {
+    const chain: Chain = { tick: 100n, processed: 99n, epoch: 1n };
+    const calls: string[] = [];
+    const watcher = createTickWatcher({ rpc: createChainRpc(chain, calls), pollIntervalMs: 1_000 });
+
+    expect(await watcher.getCurrentTick()).toBe(100n);
+    expect(await watcher.getCurrentTick()).toBe(100n);
+    expect(calls).toEqual(["tickInfo"]);
+
+    const controller = new AbortController();
+    const waiting = watcher.waitForTick(500, { signal: controller.signal });
+    controller.abort(new Error("stop"));
+    await expect(waiting).rejects.toThrow("stop");
+  });
+
+  it("keeps polling and reports the error when a tick listener throws", async () => {
+    const chain: Chain = { tick: 100n, processed: 99n, epoch: 1n };
+    const errors: unknown[] = [];
+    const watcher = createTickWatcher({
+      rpc: createChainRpc(chain, []),
+      pollIntervalMs: 5,
+      onError: (error) => errors.push(error),
+    });
+    const detach = watcher.onTick(() => {
+      throw new Error("listener");
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1));
+
+    chain.processed = 105n;
+    expect(await watcher.waitForTick(105, { processed: true })).toBe(105n);
+    detach();
+    expect(errors.length).toBeGreaterThan(0);
+    expect((errors[0] as Error).message).toBe("listener");
+  });
+});
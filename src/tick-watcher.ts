@@ -0,0 +1,295 @@
+import { createCoalescer } from "./coalesce.js";
+import type { RequestOptions } from "./http.js";
+import type { RpcClient } from "./rpc/client.js";
+
+export type TickWatcherConfig = Readonly<{
+  rpc: RpcClient;
+  /** How often to poll `tickInfo` and `getLastProcessedTick` while watched (default: 1_000). */
+  pollIntervalMs?: number;
+  /** Called when a poll or a listener fails; the next poll retries. */
+  onError?: (error: unknown) => void;
+}>;
+
+export type TickSnapshot = Readonly<{
+  currentTick?: bigint;
+  lastProcessedTick?: bigint;
+  epoch?: bigint;
+  /** First tick of `epoch`, from `TickInfo.initialTick`. */
+  initialTick?: bigint;
+  /** Last reported `TickInfo.duration`, in seconds. */
+  tickDuration?: bigint;
+}>;
+
+export type EpochChange = Readonly<{
+  from: bigint;
+  to: bigint;
+  /** Current tick when the new epoch was first seen. */
+  tick?: bigint;
+}>;
+
+export type WaitForTickOptions = Readonly<{
+  /** Waits for `lastProcessedTick` instead of `currentTick` (default: false). */
+  processed?: boolean;
+  signal?: AbortSignal;
+}>;
+
+export type FreshTickOptions = RequestOptions &
+  Readonly<{
+    /** Reuses the last observed value if it is at most this old (default: `pollIntervalMs`). */
+    maxAgeMs?: number;
+  }>;
+
+export type TickWatcher = Readonly<{
+  readonly currentTick: bigint | undefined;
+  readonly lastProcessedTick: bigint | undefined;
+  readonly epoch: bigint | undefined;
+  /** First tick of `epoch`; with `epoch` it lets push confirmations notice a rollover. */
+  readonly initialTick: bigint | undefined;
+  snapshot(): TickSnapshot;
+  getCurrentTick(options?: FreshTickOptions): Promise<bigint>;
+  getLastProcessedTick(options?: FreshTickOptions): Promise<bigint>;
+  /** Resolves with the observed tick once it reaches `tick`; rejects with `signal.reason`. */
+  waitForTick(tick: bigint | number, options?: WaitForTickOptions): Promise<bigint>;
+  onTick(listener: (snapshot: TickSnapshot) => void): () => void;
+  onEpochChange(listener: (change: EpochChange) => void): () => void;
+  /** Reports every polled `lastProcessedTick`; makes the watcher a `ProcessedTickSource`. */
+  subscribe(listener: (tick: bigint) => void): () => void;
+  /** Keeps polling without listeners until `stop()`. */
+  start(): void;
+  stop(): void;
+}>;
+
+type TickWaiter = {
+  tick: bigint;
+  processed: boolean;
+  resolve: (tick: bigint) => void;
+};
+
+/**
+ * Polls tick progress once for every consumer. Polling only runs while something is waiting
+ * or listening (or after `start()`), so an idle watcher holds no timers.
+ */
+export function createTickWatcher(config: TickWatcherConfig): TickWatcher {
+  const pollIntervalMs = config.pollIntervalMs ?? 1_000;
+  if (!Number.isFinite(pollIntervalMs) || pollIntervalMs <= 0) {
+    throw new RangeError("pollIntervalMs must be > 0");
+  }
+
+  let currentTick: bigint | undefined;
+  let lastProcessedTick: bigint | undefined;
+  let epoch: bigint | undefined;
+  let initialTick: bigint | undefined;
+  let tickDuration: bigint | undefined;
+  let currentAtMs = 0;
+  let processedAtMs = 0;
+  let started = false;
+  let polling = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const waiters = new Set<TickWaiter>();
+  const tickListeners = new Set<(snapshot: TickSnapshot) => void>();
+  const epochListeners = new Set<(change: EpochChange) => void>();
+  const processedListeners = new Set<(tick: bigint) => void>();
+  const loads = createCoalescer<bigint>();
+
+  const snapshot = (): TickSnapshot => ({
+    currentTick,
+    lastProcessedTick,
+    epoch,
+    initialTick,
+    tickDuration,
+  });
+
+  /** Calls every listener; one that throws must not stop polling or the other listeners. */
+  const notify = <T>(listeners: Set<(value: T) => void>, value: T) => {
+    for (const listener of [...listeners]) {
+      try {
+        listener(value);
+      } catch (error) {
+        config.onError?.(error);
+      }
+    }
+  };
+
+  const observeEpoch = (next: bigint) => {
+    // A lagging endpoint may still report the previous epoch; epochs only move forward.
+    if (epoch !== undefined && next <= epoch) return;
+    const previous = epoch;
+    epoch = next;
+    if (previous === undefined) return;
+    notify(epochListeners, { from: previous, to: next, tick: currentTick });
+  };
+
+  const settleWaiters = () => {
+    for (const waiter of [...waiters]) {
+      const reached = waiter.processed ? lastProcessedTick : currentTick;
+      if (reached !== undefined && reached >= waiter.tick) {
+        waiters.delete(waiter);
+        waiter.resolve(reached);
+      }
+    }
+  };
+
+  const loadCurrentTick = (signal?: AbortSignal, timeoutMs?: number) =>
+    loads.run(
+      "current",
+      async (shared) => {
+        const info = await config.rpc.live.tickInfo({ signal: shared, timeoutMs });
+        if (currentTick === undefined || info.tick > currentTick) currentTick = info.tick;
+        currentAtMs = Date.now();
+        tickDuration = info.duration;
+        if (epoch === undefined || info.epoch >= epoch) initialTick = info.initialTick;
+        observeEpoch(info.epoch);
+        settleWaiters();
+        return currentTick;
+      },
+      signal,
+    );
+
+  const loadLastProcessedTick = (signal?: AbortSignal, timeoutMs?: number) =>
+    loads.run(
+      "processed",
+      async (shared) => {
+        const last = await config.rpc.query.getLastProcessedTick({ signal: shared, timeoutMs });
+        if (lastProcessedTick === undefined || last.tickNumber > lastProcessedTick) {
+          lastProcessedTick = last.tickNumber;
+        }
+        processedAtMs = Date.now();
+        observeEpoch(last.epoch);
+        settleWaiters();
+        notify(processedListeners, lastProcessedTick);
+        return lastProcessedTick;
+      },
+      signal,
+    );
+
+  const watched = () =>
+    started ||
+    waiters.size > 0 ||
+    tickListeners.size > 0 ||
+    epochListeners.size > 0 ||
+    processedListeners.size > 0;
+
+  const poll = async () => {
+    const results = await Promise.allSettled([loadCurrentTick(), loadLastProcessedTick()]);
+    for (const result of results) {
+      if (result.status === "rejected") config.onError?.(result.reason);
+    }
+    if (results.some((r) => r.status === "fulfilled")) notify(tickListeners, snapshot());
+  };
+
+  const pollThenSchedule = async () => {
+    polling = true;
+    try {
+      await poll();
+    } finally {
+      polling = false;
+    }
+    if (timer !== undefined || !watched()) return;
+    timer = setTimeout(() => {
+      timer = undefined;
+      void pollThenSchedule();
+    }, pollIntervalMs);
+  };
+
+  /** Polls right away for a new consumer when idle, then keeps the regular interval. */
+  const watch = () => {
+    if (timer === undefined && !polling) void pollThenSchedule();
+  };
+
+  const unwatch = () => {
+    if (watched() || timer === undefined) return;
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const attach = <T>(set: Set<T>, listener: T) => {
+    set.add(listener);
+    watch();
+    return () => {
+      set.delete(listener);
+      unwatch();
+    };
+  };
+
+  return {
+    get currentTick() {
+      return currentTick;
+    },
+    get lastProcessedTick() {
+      return lastProcessedTick;
+    },
+    get epoch() {
+      return epoch;
+    },
+    get initialTick() {
+      return initialTick;
+    },
+    snapshot,
+
+    async getCurrentTick(options: FreshTickOptions = {}) {
+      const maxAgeMs = options.maxAgeMs ?? pollIntervalMs;
+      if (currentTick !== undefined && Date.now() - currentAtMs <= maxAgeMs) return currentTick;
+      return loadCurrentTick(options.signal, options.timeoutMs);
+    },
+
+    async getLastProcessedTick(options: FreshTickOptions = {}) {
+      const maxAgeMs = options.maxAgeMs ?? pollIntervalMs;
+      if (lastProcessedTick !== undefined && Date.now() - processedAtMs <= maxAgeMs) {
+        return lastProcessedTick;
+      }
+      return loadLastProcessedTick(options.signal, options.timeoutMs);
+    },
+
+    waitForTick(tick: bigint | number, options: WaitForTickOptions = {}) {
+      const target = toBigint(tick);
+      const processed = options.processed ?? false;
+      const reached = processed ? lastProcessedTick : currentTick;
+      if (reached !== undefined && reached >= target) return Promise.resolve(reached);
+      const signal = options.signal;
+      if (signal?.aborted) return Promise.reject(signal.reason);
+
+      return new Promise<bigint>((resolve, reject) => {
+        const onAbort = () => {
+          waiters.delete(waiter);
+          unwatch();
+          reject(signal?.reason);
+        };
+        const waiter: TickWaiter = {
+          tick: target,
+          processed,
+          resolve: (value) => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(value);
+            unwatch();
+          },
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+        waiters.add(waiter);
+        watch();
+      });
+    },
+
+    onTick: (listener) => attach(tickListeners, listener),
+    onEpochChange: (listener) => attach(epochListeners, listener),
+    subscribe: (listener) => attach(processedListeners, listener),
+
+    start() {
+      started = true;
+      watch();
+    },
+
+    stop() {
+      started = false;
+      unwatch();
+    },
+  };
+}
+
+function toBigint(value: bigint | number): bigint {
+  if (typeof value === "bigint") return value;
+  if (!Number.isFinite(value) || !Number.isInteger(value)) {
+    throw new TypeError("Expected an integer");
+  }
+  return BigInt(value);
+}
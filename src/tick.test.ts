@@ -1,16 +1,21 @@
-import { describe, expect, it } from "bun:test";
+import { describe, expect, it, setSystemTime } from "bun:test";
 import type { RpcClient } from "./rpc/client.js";
-import { createTickHelpers } from "./tick.js";
+import { createTickHelpers, TargetTickBeyondEpochError } from "./tick.js";
+import { createTickWatcher } from "./tick-watcher.js";
 
-function createMockRpc(tick: bigint): RpcClient {
+function createMockRpc(tick: bigint, onTickInfo?: () => void, duration = 0n): RpcClient {
   return {
     live: {
       async tickInfo() {
-        return { tick, duration: 0n, epoch: 0n, initialTick: 0n };
+        onTickInfo?.();
+        return { tick, duration, epoch: 0n, initialTick: 0n };
       },
       async balance() {
         throw new Error("not implemented");
       },
+      async balances() {
+        throw new Error("not implemented");
+      },
       async broadcastTransaction() {
         throw new Error("not implemented");
       },
@@ -48,6 +53,18 @@ function createMockRpc(tick: bigint): RpcClient {
         throw new Error("not implemented");
       },
     },
+    endpoints: {
+      status() {
+        return [];
+      },
+      active() {
+        return "https://example.test/";
+      },
+      async checkHealth() {
+        return [];
+      },
+      close() {},
+    },
   };
 }
 
@@ -66,4 +83,183 @@ describe("tick helpers", () => {
     const tick = createTickHelpers({ rpc: createMockRpc(0n), maxOffset: 10, defaultOffset: 10 });
     await expect(tick.getSuggestedTargetTick({ offset: 11 })).rejects.toBeInstanceOf(RangeError);
   });
+
+  it("shares tickInfo between concurrent and recent calls", async () => {
+    let calls = 0;
+    const tick = createTickHelpers({ rpc: createMockRpc(100n, () => calls++) });
+    const results = await Promise.all([
+      tick.getSuggestedTargetTick(),
+      tick.getSuggestedTargetTick({ offset: 20 }),
+    ]);
+    expect(results).toEqual([115n, 120n]);
+    await expect(tick.getSuggestedTargetTick()).resolves.toBe(115n);
+    expect(calls).toBe(1);
+  });
+
+  it("refetches tickInfo every call when tickInfoMaxAgeMs is 0", async () => {
+    let calls = 0;
+    const tick = createTickHelpers({
+      rpc: createMockRpc(100n, () => calls++),
+      tickInfoMaxAgeMs: 0,
+    });
+    await tick.getSuggestedTargetTick();
+    await tick.getSuggestedTargetTick();
+    expect(calls).toBe(2);
+  });
+
+  it("adapts the offset to the tick duration and broadcast latency", async () => {
+    const tick = createTickHelpers({
+      rpc: createMockRpc(100n, undefined, 2n),
+      adaptive: { leadTimeMs: 20_000 },
+    });
+    await expect(tick.getSuggestedTargetTick()).resolves.toBe(110n);
+
+    tick.recordBroadcastLatency(4_000);
+    expect(tick.estimateOffset()).toEqual({
+      offset: 12n,
+      adaptive: true,
+      tickDurationMs: 2_000,
+      broadcastLatencyMs: 4_000,
+    });
+    await expect(tick.getSuggestedTargetTick({ offset: 20 })).resolves.toBe(120n);
+  });
+
+  it("measures the tick rate from reads and clamps to maxOffset", async () => {
+    let current = 100n;
+    const rpc = createMockRpc(0n);
+    const live = {
+      ...rpc.live,
+      async tickInfo() {
+        return { tick: current, duration: 0n, epoch: 0n, initialTick: 0n };
+      },
+    };
+    const tick = createTickHelpers({
+      rpc: { ...rpc, live },
+      maxOffset: 120,
+      tickInfoMaxAgeMs: 0,
+      adaptive: true,
+    });
+    try {
+      setSystemTime(new Date(1_000_000));
+      await expect(tick.getSuggestedTargetTick()).resolves.toBe(115n);
+      setSystemTime(new Date(1_010_000));
+      current = 200n;
+      // 100 ticks in 10s = 100ms per tick; 15s of lead needs 150 ticks.
+      await expect(tick.getSuggestedTargetTick()).resolves.toBe(320n);
+      expect(tick.estimateOffset().tickDurationMs).toBe(100);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("restarts tick rate samples when a new epoch begins", async () => {
+    let info = { tick: 100n, duration: 0n, epoch: 1n, initialTick: 0n };
+    const rpc = createMockRpc(0n);
+    const live = {
+      ...rpc.live,
+      async tickInfo() {
+        return info;
+      },
+    };
+    const tick = createTickHelpers({
+      rpc: { ...rpc, live },
+      maxOffset: 120,
+      tickInfoMaxAgeMs: 0,
+      adaptive: true,
+    });
+    try {
+      setSystemTime(new Date(1_000_000));
+      await tick.getSuggestedTargetTick();
+      setSystemTime(new Date(1_001_000));
+      info = { tick: 50_000n, duration: 0n, epoch: 2n, initialTick: 50_000n };
+      // Without the reset, 49_900 ticks in 1s would pin the offset to maxOffset.
+      await expect(tick.getSuggestedTargetTick()).resolves.toBe(50_015n);
+      expect(tick.estimateOffset().adaptive).toBe(false);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("samples the tick rate from tick watcher polls", async () => {
+    let current = 100n;
+    const rpc = createMockRpc(0n);
+    const live = {
+      ...rpc.live,
+      async tickInfo() {
+        current += 1n;
+        return { tick: current, duration: 0n, epoch: 1n, initialTick: 0n };
+      },
+    };
+    const query = {
+      ...rpc.query,
+      async getLastProcessedTick() {
+        return { tickNumber: current - 1n, epoch: 1n, intervalInitialTick: 0n };
+      },
+    };
+    const tickWatcher = createTickWatcher({ rpc: { ...rpc, live, query }, pollIntervalMs: 5 });
+    const tick = createTickHelpers({
+      rpc,
+      tickWatcher,
+      adaptive: { sampleWindowMs: 40 },
+    });
+
+    await tick.getSuggestedTargetTick();
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    const estimate = tick.estimateOffset();
+    expect(estimate.adaptive).toBe(true);
+    expect(estimate.tickDurationMs).toBeGreaterThan(0);
+
+    // The sampler detaches once suggestions stop, so the watcher goes idle.
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const polled = current;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(current).toBe(polled);
+  });
+
+  it("keeps targets inside the epoch span of the previous epoch", async () => {
+    const base = createMockRpc(0n);
+    let intervalCalls = 0;
+    const rpc = (tick: bigint): RpcClient => ({
+      ...base,
+      live: {
+        ...base.live,
+        async tickInfo() {
+          return { tick, duration: 0n, epoch: 8n, initialTick: 1_000n };
+        },
+      },
+      query: {
+        ...base.query,
+        async getProcessedTickIntervals() {
+          intervalCalls++;
+          return [
+            { epoch: 7n, firstTick: 500n, lastTick: 700n },
+            { epoch: 7n, firstTick: 720n, lastTick: 900n },
+            { epoch: 8n, firstTick: 1_000n, lastTick: tick },
+          ];
+        },
+      },
+    });
+
+    const reject = createTickHelpers({ rpc: rpc(1_390n), epochBoundary: {} });
+    await expect(reject.getEpochBoundary()).resolves.toEqual({
+      epoch: 8n,
+      initialTick: 1_000n,
+      expectedEndTick: 1_400n,
+    });
+    await expect(reject.getSuggestedTargetTick({ offset: 10 })).resolves.toBe(1_400n);
+    await expect(reject.getSuggestedTargetTick()).rejects.toBeInstanceOf(
+      TargetTickBeyondEpochError,
+    );
+    expect(intervalCalls).toBe(1);
+
+    const clamp = createTickHelpers({
+      rpc: rpc(1_390n),
+      epochBoundary: { policy: "clamp", marginTicks: 2 },
+    });
+    await expect(clamp.getSuggestedTargetTick()).resolves.toBe(1_398n);
+    const tooLate = createTickHelpers({ rpc: rpc(1_396n), epochBoundary: { policy: "clamp" } });
+    await expect(tooLate.getSuggestedTargetTick()).rejects.toBeInstanceOf(
+      TargetTickBeyondEpochError,
+    );
+  });
 });
@@ -1,18 +1,97 @@
-import type { RpcClient } from "./rpc/client.js";
+import { createCoalescer } from "./coalesce.js";
+import type { RequestOptions } from "./http.js";
+import type { RpcClient, TickInfo } from "./rpc/client.js";
+import type { TickWatcher } from "./tick-watcher.js";
 
 export type TickHelpersConfig = Readonly<{
   rpc: RpcClient;
   minOffset?: bigint | number;
   defaultOffset?: bigint | number;
   maxOffset?: bigint | number;
+  /**
+   * Concurrent calls share one `tickInfo` request, and its result is reused for this long
+   * in ms (default: 1_000; 0 keeps only in-flight sharing).
+   */
+  tickInfoMaxAgeMs?: number;
+  /**
+   * Reads the current tick through a shared watcher instead of calling `tickInfo` here. In
+   * adaptive mode the tick rate is sampled from its polls, which keeps the watcher polling
+   * for `sampleWindowMs` after each suggestion.
+   */
+  tickWatcher?: TickWatcher;
+  /**
+   * Derives the offset from the measured tick rate and broadcast latency instead of using
+   * `defaultOffset`; `true` uses the defaults below.
+   */
+  adaptive?: boolean | AdaptiveTickOffsetConfig;
+  /** Keeps suggested targets inside the current epoch; off when unset. */
+  epochBoundary?: EpochBoundaryConfig;
 }>;
 
+export type AdaptiveTickOffsetConfig = Readonly<{
+  /** Wall-clock time the target tick should still be ahead once the broadcast lands (default: 15_000). */
+  leadTimeMs?: number;
+  /** Tick rate is measured from reads within this window in ms (default: 60_000). */
+  sampleWindowMs?: number;
+  /** Recent broadcast latencies kept for the estimate (default: 20). */
+  latencySamples?: number;
+}>;
+
+export type EpochBoundaryConfig = Readonly<{
+  /**
+   * `reject` throws `TargetTickBeyondEpochError` for targets past the expected epoch end;
+   * `clamp` moves them back to it while that still leaves `minOffset` (default: `reject`).
+   */
+  policy?: "reject" | "clamp";
+  /** Ticks before the expected end that already count as past it (default: 0). */
+  marginTicks?: bigint | number;
+}>;
+
+export type EpochBoundary = Readonly<{
+  epoch: bigint;
+  initialTick: bigint;
+  /**
+   * Last tick the epoch is expected to process: `initialTick` plus the tick span of the
+   * latest completed epoch in `getProcessedTickIntervals`. Unknown without such an epoch.
+   */
+  expectedEndTick?: bigint;
+}>;
+
+export class TargetTickBeyondEpochError extends Error {
+  override name = "TargetTickBeyondEpochError";
+
+  constructor(
+    readonly targetTick: bigint,
+    readonly boundary: EpochBoundary & Readonly<{ expectedEndTick: bigint }>,
+  ) {
+    super(
+      `Target tick ${targetTick} is past the expected end of epoch ${boundary.epoch} (tick ${boundary.expectedEndTick})`,
+    );
+  }
+}
+
 export type SuggestedTargetTickInput = Readonly<{ offset?: bigint | number }>;
 
+export type TickOffsetEstimate = Readonly<{
+  offset: bigint;
+  /** False when adaptive mode is off or nothing has been measured yet (`defaultOffset`). */
+  adaptive: boolean;
+  tickDurationMs?: number;
+  /** 90th percentile of the recorded broadcast latencies. */
+  broadcastLatencyMs?: number;
+}>;
+
 export type TickHelpers = Readonly<{
   getSuggestedTargetTick(input?: SuggestedTargetTickInput): Promise<bigint>;
+  /** Offset `getSuggestedTargetTick` would add when called without `offset`. */
+  estimateOffset(): TickOffsetEstimate;
+  /** Feeds the adaptive offset; `transactions` records every broadcast. */
+  recordBroadcastLatency(durationMs: number): void;
+  getEpochBoundary(options?: RequestOptions): Promise<EpochBoundary>;
 }>;
 
+type TickSample = { tick: bigint; atMs: number };
+
 export function createTickHelpers(config: TickHelpersConfig): TickHelpers {
   const minOffset = toBigint(config.minOffset ?? 5);
   const defaultOffset = toBigint(config.defaultOffset ?? 15);
@@ -23,17 +102,209 @@ export function createTickHelpers(config: TickHelpersConfig): TickHelpers {
   if (maxOffset < 0n) throw new RangeError("maxOffset must be >= 0");
   if (minOffset > maxOffset) throw new RangeError("minOffset must be <= maxOffset");
 
+  const tickInfoMaxAgeMs = config.tickInfoMaxAgeMs ?? 1_000;
+  if (!Number.isFinite(tickInfoMaxAgeMs) || tickInfoMaxAgeMs < 0) {
+    throw new RangeError("tickInfoMaxAgeMs must be >= 0");
+  }
+  const tickInfo = createCoalescer<TickInfo>(tickInfoMaxAgeMs);
+
+  const adaptive = config.adaptive === true ? {} : config.adaptive || undefined;
+  const leadTimeMs = adaptive?.leadTimeMs ?? 15_000;
+  const sampleWindowMs = adaptive?.sampleWindowMs ?? 60_000;
+  const latencySamples = adaptive?.latencySamples ?? 20;
+  if (!Number.isFinite(leadTimeMs) || leadTimeMs < 0) {
+    throw new RangeError("leadTimeMs must be >= 0");
+  }
+  if (!Number.isFinite(sampleWindowMs) || sampleWindowMs <= 0) {
+    throw new RangeError("sampleWindowMs must be > 0");
+  }
+  if (!Number.isSafeInteger(latencySamples) || latencySamples <= 0) {
+    throw new RangeError("latencySamples must be a positive integer");
+  }
+
+  const epochPolicy = config.epochBoundary?.policy ?? "reject";
+  const marginTicks = toBigint(config.epochBoundary?.marginTicks ?? 0);
+  if (marginTicks < 0n) throw new RangeError("marginTicks must be >= 0");
+  // Spans of completed epochs never change; keyed by the epoch they are used for.
+  const epochSpans = createCoalescer<bigint | undefined>(10 * 60_000);
+  let currentEpoch: { epoch: bigint; initialTick: bigint } | undefined;
+
+  const clamp = (offset: bigint) =>
+    offset < minOffset ? minOffset : offset > maxOffset ? maxOffset : offset;
+
+  const samples: TickSample[] = [];
+  const latencies: number[] = [];
+  let reportedDuration: bigint | undefined;
+  let sampledEpoch: string | undefined;
+  let detachSampler: (() => void) | undefined;
+  let samplerTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Samples a freshly read tick; the jump into a new epoch is not tick progress. */
+  const recordTick = (tick: bigint, epoch?: bigint, initialTick?: bigint) => {
+    if (!adaptive) return;
+    const epochKey = `${epoch}:${initialTick}`;
+    if (epochKey !== sampledEpoch) {
+      sampledEpoch = epochKey;
+      samples.length = 0;
+    }
+    const atMs = Date.now();
+    const last = samples.at(-1);
+    if (last && tick <= last.tick) return;
+    samples.push({ tick, atMs });
+    while (samples.length > 2 && atMs - (samples[0]?.atMs ?? atMs) > sampleWindowMs) {
+      samples.shift();
+    }
+  };
+
+  /** Measured ms per tick, falling back to the node-reported duration (in seconds). */
+  const tickDurationMs = (): number | undefined => {
+    const first = samples[0];
+    const last = samples.at(-1);
+    if (first && last && last.tick > first.tick && last.atMs > first.atMs) {
+      return (last.atMs - first.atMs) / Number(last.tick - first.tick);
+    }
+    if (reportedDuration !== undefined && reportedDuration > 0n) {
+      return Number(reportedDuration) * 1_000;
+    }
+    return undefined;
+  };
+
+  const broadcastLatencyMs = (): number | undefined => {
+    if (latencies.length === 0) return undefined;
+    const sorted = [...latencies].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.9))];
+  };
+
+  const estimateOffset = (): TickOffsetEstimate => {
+    if (!adaptive) return { offset: defaultOffset, adaptive: false };
+    const durationMs = tickDurationMs();
+    const latencyMs = broadcastLatencyMs();
+    if (durationMs === undefined) {
+      return { offset: clamp(defaultOffset), adaptive: false, broadcastLatencyMs: latencyMs };
+    }
+    return {
+      offset: clamp(BigInt(Math.ceil((leadTimeMs + (latencyMs ?? 0)) / durationMs))),
+      adaptive: true,
+      tickDurationMs: durationMs,
+      broadcastLatencyMs: latencyMs,
+    };
+  };
+
+  /** Samples every watcher poll until no suggestion was made for `sampleWindowMs`. */
+  const sampleWatcher = (watcher: TickWatcher) => {
+    detachSampler ??= watcher.onTick((snapshot) => {
+      if (snapshot.currentTick === undefined) return;
+      recordTick(snapshot.currentTick, snapshot.epoch, snapshot.initialTick);
+    });
+    if (samplerTimer !== undefined) clearTimeout(samplerTimer);
+    samplerTimer = setTimeout(() => {
+      samplerTimer = undefined;
+      detachSampler?.();
+      detachSampler = undefined;
+    }, sampleWindowMs);
+  };
+
+  const readCurrentTick = async (options: RequestOptions = {}): Promise<bigint> => {
+    if (config.tickWatcher) {
+      if (adaptive) sampleWatcher(config.tickWatcher);
+      const tick = await config.tickWatcher.getCurrentTick({
+        ...options,
+        maxAgeMs: tickInfoMaxAgeMs,
+      });
+      const snapshot = config.tickWatcher.snapshot();
+      reportedDuration = snapshot.tickDuration;
+      if (snapshot.epoch !== undefined && snapshot.initialTick !== undefined) {
+        currentEpoch = { epoch: snapshot.epoch, initialTick: snapshot.initialTick };
+      }
+      return tick;
+    }
+    const info = await tickInfo.run(
+      "tickInfo",
+      async (signal) => {
+        const fresh = await config.rpc.live.tickInfo({ signal, timeoutMs: options.timeoutMs });
+        // Sampled when fetched; reused results would skew the measured tick rate.
+        recordTick(fresh.tick, fresh.epoch, fresh.initialTick);
+        return fresh;
+      },
+      options.signal,
+    );
+    reportedDuration = info.duration;
+    currentEpoch = { epoch: info.epoch, initialTick: info.initialTick };
+    return info.tick;
+  };
+
+  const epochBoundary = async (options: RequestOptions = {}): Promise<EpochBoundary> => {
+    const current = currentEpoch;
+    if (!current) throw new Error("Current epoch is unknown");
+    const span = await epochSpans.run(
+      current.epoch.toString(),
+      async (signal) => {
+        const intervals = await config.rpc.query.getProcessedTickIntervals({
+          signal,
+          timeoutMs: options.timeoutMs,
+        });
+        const previous = intervals.filter((i) => i.epoch < current.epoch);
+        const epoch = previous.reduce((max, i) => (i.epoch > max ? i.epoch : max), 0n);
+        let first: bigint | undefined;
+        let last = 0n;
+        for (const interval of previous) {
+          if (interval.epoch !== epoch) continue;
+          if (first === undefined || interval.firstTick < first) first = interval.firstTick;
+          if (interval.lastTick > last) last = interval.lastTick;
+        }
+        if (first === undefined) return undefined;
+        return last - first;
+      },
+      options.signal,
+    );
+    return {
+      epoch: current.epoch,
+      initialTick: current.initialTick,
+      expectedEndTick: span === undefined ? undefined : current.initialTick + span,
+    };
+  };
+
+  /** Applies `epochBoundary.policy` to a target suggested on top of `tick`. */
+  const withinEpoch = async (tick: bigint, target: bigint): Promise<bigint> => {
+    if (!config.epochBoundary) return target;
+    const boundary = await epochBoundary();
+    if (boundary.expectedEndTick === undefined) return target;
+    const limit = boundary.expectedEndTick - marginTicks;
+    if (target <= limit) return target;
+    if (epochPolicy === "clamp" && limit >= tick + minOffset) return limit;
+    throw new TargetTickBeyondEpochError(target, {
+      ...boundary,
+      expectedEndTick: boundary.expectedEndTick,
+    });
+  };
+
   return {
     async getSuggestedTargetTick(input: SuggestedTargetTickInput = {}): Promise<bigint> {
-      const offset = toBigint(input.offset ?? defaultOffset);
-      if (offset < minOffset) {
+      // An explicit offset always wins; adaptive mode only replaces `defaultOffset`.
+      const fixed = input.offset ?? (adaptive ? undefined : defaultOffset);
+      const offset = fixed === undefined ? undefined : toBigint(fixed);
+      if (offset !== undefined && offset < minOffset) {
         throw new RangeError(`offset must be >= ${minOffset}`);
       }
-      if (offset > maxOffset) {
+      if (offset !== undefined && offset > maxOffset) {
         throw new RangeError(`offset must be <= ${maxOffset}`);
       }
-      const { tick } = await config.rpc.live.tickInfo();
-      return tick + offset;
+      const tick = await readCurrentTick();
+      if (offset !== undefined) return withinEpoch(tick, tick + offset);
+      return withinEpoch(tick, tick + estimateOffset().offset);
+    },
+
+    estimateOffset,
+
+    recordBroadcastLatency(durationMs: number) {
+      if (!adaptive || !Number.isFinite(durationMs) || durationMs < 0) return;
+      latencies.push(durationMs);
+      if (latencies.length > latencySamples) latencies.shift();
+    },
+
+    async getEpochBoundary(options?: RequestOptions) {
+      await readCurrentTick(options);
+      return epochBoundary(options);
     },
   };
 }
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import type { BroadcastTransactionResult } from "./rpc/client.js";
-import { createTransactionHelpers } from "./transactions.js";
+import { createTransactionHelpers, QueuedTransactionError } from "./transactions.js";
 import type { TxHelpers } from "./tx/tx.js";
 import { TxQueue } from "./tx/tx-queue.js";
 
@@ -51,6 +51,13 @@ describe("transactions (queued)", () => {
         async getSuggestedTargetTick() {
           return 100n;
         },
+        estimateOffset() {
+          return { offset: 15n, adaptive: false };
+        },
+        recordBroadcastLatency() {},
+        async getEpochBoundary() {
+          return { epoch: 1n, initialTick: 0n };
+        },
       },
       tx,
       txQueue,
@@ -85,6 +92,65 @@ describe("transactions (queued)", () => {
     expect(r2.networkTxId).toBe("tx2");
     expect(broadcastOrder).toEqual(["tx1", "tx2"]);
   });
+
+  it("cancels a queued send when its signal aborts", async () => {
+    const broadcastOrder: string[] = [];
+    const tx: TxHelpers = {
+      async broadcastSigned() {
+        const txId = `tx${broadcastOrder.length + 1}`;
+        broadcastOrder.push(txId);
+        return { peersBroadcasted: 1, encodedTransaction: "", transactionId: txId };
+      },
+      waitForConfirmation: () => new Promise(() => {}),
+      async waitForConfirmedTransaction() {
+        throw new Error("not implemented");
+      },
+    };
+    const txQueue = new TxQueue({
+      confirm: ({ txId, targetTick, signal }) =>
+        tx.waitForConfirmation({ txId, targetTick, signal }),
+    });
+    const transactions = createTransactionHelpers({
+      tick: {
+        async getSuggestedTargetTick() {
+          return 100n;
+        },
+        estimateOffset() {
+          return { offset: 15n, adaptive: false };
+        },
+        recordBroadcastLatency() {},
+        async getEpochBoundary() {
+          return { epoch: 1n, initialTick: 0n };
+        },
+      },
+      tx,
+      txQueue,
+    });
+
+    const seed = "jvhbyzjinlyutyuhsweuxiwootqoevjqwqmdhjeohrytxjxidpbcfyg";
+    const toIdentity = "AFZPUAIYVPNUYGJRQVLUKOPPVLHAZQTGLYAAUUNBXFTVTAMSBKQBLEIEPCVJ";
+    const first = transactions.sendQueued({ fromSeed: seed, toIdentity, amount: 1n });
+    const controller = new AbortController();
+    const second = transactions.sendQueued({
+      fromSeed: seed,
+      toIdentity,
+      amount: 2n,
+      signal: controller.signal,
+    });
+    await waitFor(() => txQueue.getStats().inFlight === 2);
+
+    const reason = new Error("aborted by caller");
+    controller.abort(reason);
+    const error = await second.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(QueuedTransactionError);
+    expect((error as QueuedTransactionError).details).toEqual({
+      status: "cancelled",
+      error: reason,
+    });
+    expect(broadcastOrder).toEqual(["tx1"]);
+    txQueue.cancel(txQueue.getItems({ status: "confirming" })[0]?.id ?? "");
+    await expect(first).rejects.toBeInstanceOf(QueuedTransactionError);
+  });
 });
 
 async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<void> {
@@ -22,6 +22,13 @@ describe("transactions", () => {
       async getSuggestedTargetTick() {
         return 999n;
       },
+      estimateOffset() {
+        return { offset: 15n, adaptive: false };
+      },
+      recordBroadcastLatency() {},
+      async getEpochBoundary() {
+        return { epoch: 1n, initialTick: 0n };
+      },
     };
     const tx: TxHelpers = {
       async broadcastSigned() {
@@ -74,6 +81,13 @@ describe("transactions", () => {
       async getSuggestedTargetTick() {
         return 123n;
       },
+      estimateOffset() {
+        return { offset: 15n, adaptive: false };
+      },
+      recordBroadcastLatency() {},
+      async getEpochBoundary() {
+        return { epoch: 1n, initialTick: 0n };
+      },
     };
     const tx: TxHelpers = {
       async broadcastSigned() {
@@ -146,4 +160,108 @@ describe("transactions", () => {
 
     expect(built.txBytes.length).toBeGreaterThan(0);
   });
+
+  it("rebroadcasts the same bytes until the target tick is processed", async () => {
+    const seed = "jvhbyzjinlyutyuhsweuxiwootqoevjqwqmdhjeohrytxjxidpbcfyg";
+    const toIdentity = "AFZPUAIYVPNUYGJRQVLUKOPPVLHAZQTGLYAAUUNBXFTVTAMSBKQBLEIEPCVJ";
+    const sent: Uint8Array[] = [];
+    let processed = false;
+    let confirmSignal: (() => void) | undefined;
+
+    const tick: TickHelpers = {
+      async getSuggestedTargetTick() {
+        return 50n;
+      },
+      estimateOffset() {
+        return { offset: 15n, adaptive: false };
+      },
+      recordBroadcastLatency() {},
+      async getEpochBoundary() {
+        return { epoch: 1n, initialTick: 0n };
+      },
+    };
+    const tx: TxHelpers = {
+      async broadcastSigned(txBytes) {
+        sent.push(txBytes as Uint8Array);
+        if (sent.length === 3) processed = true;
+        return { peersBroadcasted: sent.length, encodedTransaction: "", transactionId: "net" };
+      },
+      async waitForConfirmation() {
+        await new Promise<void>((resolve) => {
+          confirmSignal = resolve;
+        });
+      },
+      async waitForConfirmedTransaction() {
+        throw new Error("not used");
+      },
+    };
+
+    const transactions = createTransactionHelpers({
+      tick,
+      tx,
+      tickWatcher: {
+        waitForTick: (_tick, options) =>
+          new Promise((resolve, reject) => {
+            if (processed) resolve(50n);
+            options?.signal?.addEventListener("abort", () => reject(options.signal?.reason));
+          }),
+      },
+    });
+
+    const pending = transactions.sendAndConfirm({
+      fromSeed: seed,
+      toIdentity,
+      amount: 1n,
+      rebroadcast: { intervalMs: 5 },
+    });
+    while (!processed || !confirmSignal) await new Promise((resolve) => setTimeout(resolve, 5));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    confirmSignal();
+    const result = await pending;
+
+    expect(sent.length).toBe(3);
+    expect(sent[2]).toEqual(result.txBytes);
+    expect(result.broadcasts?.map((b) => b.peersBroadcasted)).toEqual([1, 2, 3]);
+  });
+
+  it("rejects invalid rebroadcast options before broadcasting", async () => {
+    let broadcasts = 0;
+    const tick: TickHelpers = {
+      async getSuggestedTargetTick() {
+        return 50n;
+      },
+      estimateOffset() {
+        return { offset: 15n, adaptive: false };
+      },
+      recordBroadcastLatency() {},
+      async getEpochBoundary() {
+        return { epoch: 1n, initialTick: 0n };
+      },
+    };
+    const tx: TxHelpers = {
+      async broadcastSigned() {
+        broadcasts++;
+        return { peersBroadcasted: 1, encodedTransaction: "", transactionId: "net" };
+      },
+      async waitForConfirmation() {},
+      async waitForConfirmedTransaction() {
+        throw new Error("not used");
+      },
+    };
+    const transactions = createTransactionHelpers({
+      tick,
+      tx,
+      tickWatcher: { waitForTick: async () => 50n },
+    });
+
+    await expect(
+      transactions.sendAndConfirm({
+        fromSeed: "jvhbyzjinlyutyuhsweuxiwootqoevjqwqmdhjeohrytxjxidpbcfyg",
+        toIdentity: "AFZPUAIYVPNUYGJRQVLUKOPPVLHAZQTGLYAAUUNBXFTVTAMSBKQBLEIEPCVJ",
+        amount: 1n,
+        rebroadcast: { intervalMs: 0 },
+      }),
+    ).rejects.toBeInstanceOf(RangeError);
+    expect(broadcasts).toBe(0);
+  });
 });
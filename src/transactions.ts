@@ -8,8 +8,15 @@ import {
 } from "@qubic-labs/core";
 import type { BroadcastTransactionResult, QueryTransaction } from "./rpc/client.js";
 import type { TickHelpers } from "./tick.js";
+import type { TickWatcher } from "./tick-watcher.js";
+import {
+  assertRebroadcastOptions,
+  rebroadcastUntilProcessed,
+  type TxBroadcastAttempt,
+  type TxRebroadcastOptions,
+} from "./tx/rebroadcast.js";
 import type { TxHelpers } from "./tx/tx.js";
-import type { TxQueue } from "./tx/tx-queue.js";
+import type { TxQueue, TxQueueRebroadcast } from "./tx/tx-queue.js";
 import type { SeedVault } from "./vault/types.js";
 
 export type TransactionHelpersConfig = Readonly<{
@@ -17,6 +24,8 @@ export type TransactionHelpersConfig = Readonly<{
   tx: TxHelpers;
   txQueue?: TxQueue;
   vault?: SeedVault;
+  /** Tells rebroadcasts when the target tick has been processed; required for `rebroadcast`. */
+  tickWatcher?: Pick<TickWatcher, "waitForTick">;
 }>;
 
 export type SeedSourceInput =
@@ -47,6 +56,8 @@ export type SendTransactionResult = Readonly<{
   networkTxId: string;
   targetTick: bigint;
   broadcast: BroadcastTransactionResult;
+  /** Every broadcast of `txBytes`, in order; set when `rebroadcast` was requested. */
+  broadcasts?: readonly TxBroadcastAttempt[];
 }>;
 
 export type SendTransactionReceipt = SendTransactionResult &
@@ -73,6 +84,13 @@ export type SendAndConfirmTransactionInput = BuildSignedTransactionInput &
     timeoutMs?: number;
     pollIntervalMs?: number;
     signal?: AbortSignal;
+    /**
+     * Re-sends the same signed bytes every `intervalMs` until `lastProcessedTick >= targetTick`,
+     * in case peers dropped the first broadcast; `true` uses the defaults.
+     */
+    rebroadcast?: boolean | TxRebroadcastOptions;
+    /** Queue priority when sent through the `TxQueue`; higher starts first (default: 0). */
+    priority?: number;
   }>;
 
 export type TransactionHelpers = Readonly<{
@@ -84,6 +102,34 @@ export type TransactionHelpers = Readonly<{
 }>;
 
 export function createTransactionHelpers(config: TransactionHelpersConfig): TransactionHelpers {
+  /** Broadcasts and reports the round trip to the adaptive target tick offset. */
+  const broadcastTimed = async (txBytes: Uint8Array, signal?: AbortSignal) => {
+    const startedAt = Date.now();
+    const broadcast = await config.tx.broadcastSigned(txBytes, signal ? { signal } : undefined);
+    config.tick.recordBroadcastLatency(Date.now() - startedAt);
+    return broadcast;
+  };
+
+  /**
+   * Checks the rebroadcast options up front, before anything is signed or broadcast, and
+   * returns a builder for the signed bytes.
+   */
+  const rebroadcastFor = (
+    input: SendAndConfirmTransactionInput,
+  ): ((txBytes: Uint8Array) => TxQueueRebroadcast) | undefined => {
+    if (!input.rebroadcast) return undefined;
+    const tickWatcher = config.tickWatcher;
+    if (!tickWatcher) throw new TypeError("rebroadcast requires a tickWatcher");
+    const options = input.rebroadcast === true ? {} : input.rebroadcast;
+    assertRebroadcastOptions(options);
+    return (txBytes) => ({
+      ...options,
+      broadcast: (signal) => broadcastTimed(txBytes, signal),
+      waitForProcessedTick: (tick, signal) =>
+        tickWatcher.waitForTick(tick, { processed: true, signal }),
+    });
+  };
+
   const helpers: TransactionHelpers = {
     async buildSigned(input: BuildSignedTransactionInput): Promise<BuiltTransaction> {
       const targetTick =
@@ -114,7 +160,7 @@ export function createTransactionHelpers(config: TransactionHelpersConfig): Tran
 
     async send(input: BuildSignedTransactionInput): Promise<SendTransactionResult> {
       const built = await helpers.buildSigned(input);
-      const broadcast = await config.tx.broadcastSigned(built.txBytes);
+      const broadcast = await broadcastTimed(built.txBytes);
       return {
         ...built,
         networkTxId: broadcast.transactionId,
@@ -125,19 +171,40 @@ export function createTransactionHelpers(config: TransactionHelpersConfig): Tran
     async sendAndConfirm(input: SendAndConfirmTransactionInput): Promise<SendTransactionResult> {
       if (config.txQueue) return helpers.sendQueued(input);
 
+      const rebroadcastOf = rebroadcastFor(input);
       const built = await helpers.buildSigned(input);
-      const broadcast = await config.tx.broadcastSigned(built.txBytes);
-      await config.tx.waitForConfirmation({
-        txId: broadcast.transactionId,
-        targetTick: built.targetTick,
-        timeoutMs: input.timeoutMs,
-        pollIntervalMs: input.pollIntervalMs,
-        signal: input.signal,
-      });
+      const rebroadcast = rebroadcastOf?.(built.txBytes);
+      const broadcastAtMs = Date.now();
+      const broadcast = await broadcastTimed(built.txBytes, input.signal);
+      const broadcasts: TxBroadcastAttempt[] = [
+        { atMs: broadcastAtMs, peersBroadcasted: broadcast.peersBroadcasted },
+      ];
+      const stopRebroadcast = new AbortController();
+      const rebroadcasting = rebroadcast
+        ? rebroadcastUntilProcessed({
+            ...rebroadcast,
+            targetTick: built.targetTick,
+            signal: stopRebroadcast.signal,
+            onAttempt: (attempt) => broadcasts.push(attempt),
+          })
+        : undefined;
+      try {
+        await config.tx.waitForConfirmation({
+          txId: broadcast.transactionId,
+          targetTick: built.targetTick,
+          timeoutMs: input.timeoutMs,
+          pollIntervalMs: input.pollIntervalMs,
+          signal: input.signal,
+        });
+      } finally {
+        stopRebroadcast.abort();
+        await rebroadcasting;
+      }
       return {
         ...built,
         networkTxId: broadcast.transactionId,
         broadcast,
+        broadcasts: rebroadcast ? broadcasts : undefined,
       };
     },
 
@@ -159,17 +226,28 @@ export function createTransactionHelpers(config: TransactionHelpersConfig): Tran
       const txQueue = config.txQueue;
       if (!txQueue) throw new Error("Transaction queue is not configured");
 
+      const rebroadcastOf = rebroadcastFor(input);
       const sourceIdentity = await resolveSourceIdentity(input, config.vault);
       const built = await helpers.buildSigned(input);
+      const rebroadcast = rebroadcastOf?.(built.txBytes);
 
       const queued = await txQueue.enqueue({
         sourceIdentity,
         targetTick: built.targetTick,
+        txBytes: built.txBytes,
         submit: async ({ signal }) => {
           if (signal.aborted) throw new Error("aborted");
-          const broadcast = await config.tx.broadcastSigned(built.txBytes);
-          return { txId: broadcast.transactionId, result: broadcast };
+          const broadcast = await broadcastTimed(built.txBytes, signal);
+          return {
+            txId: broadcast.transactionId,
+            result: broadcast,
+            peersBroadcasted: broadcast.peersBroadcasted,
+          };
         },
+        rebroadcast,
+        // Aborting cancels the item, whether it is still queued or already confirming.
+        signal: input.signal,
+        priority: input.priority,
         confirm: ({ txId, targetTick, signal }) =>
           config.tx.waitForConfirmation({
             txId,
@@ -193,6 +271,7 @@ export function createTransactionHelpers(config: TransactionHelpersConfig): Tran
         ...built,
         networkTxId: broadcast.transactionId,
         broadcast,
+        broadcasts: rebroadcast ? queued.broadcasts : undefined,
       };
     },
   };
@@ -21,6 +21,13 @@ describe("transfers", () => {
       async getSuggestedTargetTick() {
         return 999n;
       },
+      estimateOffset() {
+        return { offset: 15n, adaptive: false };
+      },
+      recordBroadcastLatency() {},
+      async getEpochBoundary() {
+        return { epoch: 1n, initialTick: 0n };
+      },
     };
     const tx: TxHelpers = {
       async broadcastSigned() {
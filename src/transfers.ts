@@ -1,5 +1,6 @@
 import type { BroadcastTransactionResult, QueryTransaction } from "./rpc/client.js";
 import type { SeedSourceInput, TransactionHelpers } from "./transactions.js";
+import type { TxBroadcastAttempt, TxRebroadcastOptions } from "./tx/rebroadcast.js";
 
 export type TransferHelpersConfig = Readonly<{
   transactions: TransactionHelpers;
@@ -24,6 +25,7 @@ export type SendTransferResult = Readonly<{
   networkTxId: string;
   targetTick: bigint;
   broadcast: BroadcastTransactionResult;
+  broadcasts?: readonly TxBroadcastAttempt[];
 }>;
 
 export type SendTransferReceipt = SendTransferResult &
@@ -36,6 +38,8 @@ export type SendAndConfirmInput = BuildSignedTransferInput &
     timeoutMs?: number;
     pollIntervalMs?: number;
     signal?: AbortSignal;
+    rebroadcast?: boolean | TxRebroadcastOptions;
+    priority?: number;
   }>;
 
 export type TransferHelpers = Readonly<{
@@ -89,6 +93,8 @@ export function createTransferHelpers(config: TransferHelpersConfig): TransferHe
         timeoutMs: input.timeoutMs,
         pollIntervalMs: input.pollIntervalMs,
         signal: input.signal,
+        rebroadcast: input.rebroadcast,
+        priority: input.priority,
       });
       return {
         txBytes: sent.txBytes,
@@ -96,6 +102,7 @@ export function createTransferHelpers(config: TransferHelpersConfig): TransferHe
         networkTxId: sent.networkTxId,
         targetTick: sent.targetTick,
         broadcast: sent.broadcast,
+        broadcasts: sent.broadcasts,
       };
     },
 
@@ -108,6 +115,8 @@ export function createTransferHelpers(config: TransferHelpersConfig): TransferHe
         timeoutMs: input.timeoutMs,
         pollIntervalMs: input.pollIntervalMs,
         signal: input.signal,
+        rebroadcast: input.rebroadcast,
+        priority: input.priority,
       });
       return {
         txBytes: sent.txBytes,
@@ -115,6 +124,7 @@ export function createTransferHelpers(config: TransferHelpersConfig): TransferHe
         networkTxId: sent.networkTxId,
         targetTick: sent.targetTick,
         broadcast: sent.broadcast,
+        broadcasts: sent.broadcasts,
         confirmedTransaction: sent.confirmedTransaction,
       };
     },
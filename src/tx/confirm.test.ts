@@ -1,9 +1,13 @@
 import { describe, expect, it } from "bun:test";
 import type { FetchLike } from "../http.js";
 import { createRpcClient } from "../rpc/client.js";
+import { createTickWatcher } from "../tick-watcher.js";
 import {
   createTxConfirmationHelpers,
+  type ProcessedTickSource,
+  TxConfirmationAbortedError,
   TxConfirmationTimeoutError,
+  TxEpochChangedError,
   TxNotFoundError,
 } from "./confirm.js";
 
@@ -95,6 +99,66 @@ describe("tx confirmation", () => {
     ).rejects.toBeInstanceOf(TxNotFoundError);
   });
 
+  it("throws TxEpochChangedError when a new epoch starts past the target tick", async () => {
+    let polls = 0;
+    const fetch: FetchLike = async (...args) => {
+      const url = new URL(getUrl(args[0]));
+      const method = getMethod(args[0], args[1]);
+      if (method === "GET" && url.pathname === "/query/v1/getLastProcessedTick") {
+        polls++;
+        return polls === 1
+          ? Response.json({ tickNumber: 95, epoch: 7, intervalInitialTick: 0 })
+          : Response.json({ tickNumber: 200, epoch: 8, intervalInitialTick: 150 });
+      }
+      return new Response("not found", { status: 404 });
+    };
+
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const confirm = createTxConfirmationHelpers({
+      rpc,
+      defaultTimeoutMs: 5_000,
+      defaultPollIntervalMs: 1,
+    });
+    const error = await confirm
+      .waitForConfirmation({ txId: "tx", targetTick: 100 })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TxEpochChangedError);
+    expect(error).toMatchObject({ targetTick: 100n, fromEpoch: 7n, toEpoch: 8n });
+  });
+
+  it("reads lastProcessedTick through a shared tick watcher when polling", async () => {
+    const calls: string[] = [];
+    const fetch: FetchLike = async (...args) => {
+      const url = new URL(getUrl(args[0]));
+      calls.push(url.pathname);
+      if (url.pathname === "/query/v1/getLastProcessedTick") {
+        return Response.json({ tickNumber: 12, epoch: 0, intervalInitialTick: 0 });
+      }
+      const body = readJsonBody(args[0], args[1]);
+      return Response.json({
+        hash: body.hash,
+        amount: "0",
+        source: "S",
+        destination: "D",
+        tickNumber: 10,
+        timestamp: "0",
+        inputType: 0,
+        inputSize: 0,
+        inputData: "",
+        signature: "",
+      });
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const tickWatcher = createTickWatcher({ rpc, pollIntervalMs: 1_000 });
+    const confirm = createTxConfirmationHelpers({ rpc, tickWatcher, defaultTimeoutMs: 5_000 });
+
+    await Promise.all([
+      confirm.waitForConfirmation({ txId: "a", targetTick: 10 }),
+      confirm.waitForConfirmation({ txId: "b", targetTick: 11 }),
+    ]);
+    expect(calls.filter((c) => c === "/query/v1/getLastProcessedTick")).toHaveLength(1);
+  });
+
   it("throws TxConfirmationTimeoutError if lastProcessedTick never reaches target", async () => {
     const fetch: FetchLike = async (...args) => {
       const url = new URL(getUrl(args[0]));
@@ -120,6 +184,147 @@ describe("tx confirmation", () => {
   });
 });
 
+describe("push tx confirmation", () => {
+  function createPushFetch(calls: string[]): FetchLike {
+    return async (...args) => {
+      const url = new URL(getUrl(args[0]));
+      calls.push(url.pathname);
+      if (url.pathname === "/query/v1/getLastProcessedTick") {
+        return Response.json({ tickNumber: 12, epoch: 0, intervalInitialTick: 0 });
+      }
+      const body = readJsonBody(args[0], args[1]);
+      return Response.json({
+        hash: body.hash,
+        amount: "0",
+        source: "S",
+        destination: "D",
+        tickNumber: 10,
+        timestamp: "0",
+        inputType: 0,
+        inputSize: 0,
+        inputData: "",
+        signature: "",
+      });
+    };
+  }
+
+  it("resolves every pending wait from one shared tick subscription", async () => {
+    const calls: string[] = [];
+    const listeners = new Set<(tick: bigint) => void>();
+    let subscriptions = 0;
+    const tickSource: ProcessedTickSource = {
+      subscribe(listener) {
+        subscriptions++;
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch: createPushFetch(calls) });
+    const confirm = createTxConfirmationHelpers({ rpc, tickSource, defaultTimeoutMs: 5_000 });
+
+    const first = confirm.waitForConfirmedTransaction({ txId: "a", targetTick: 10 });
+    const second = confirm.waitForConfirmedTransaction({ txId: "b", targetTick: 11 });
+    await Promise.resolve();
+    for (const listener of listeners) listener(9n);
+    for (const listener of listeners) listener(11n);
+
+    expect((await first).hash).toBe("a");
+    expect((await second).hash).toBe("b");
+    expect(subscriptions).toBe(1);
+    expect(listeners.size).toBe(0);
+    expect(calls).not.toContain("/query/v1/getLastProcessedTick");
+  });
+
+  it("falls back to polling while the tick source is silent", async () => {
+    const calls: string[] = [];
+    const tickSource: ProcessedTickSource = { subscribe: () => () => {} };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch: createPushFetch(calls) });
+    const confirm = createTxConfirmationHelpers({
+      rpc,
+      tickSource,
+      pushStaleAfterMs: 0,
+      defaultPollIntervalMs: 1,
+      defaultTimeoutMs: 5_000,
+    });
+
+    await confirm.waitForConfirmation({ txId: "a", targetTick: 12 });
+    expect(calls).toEqual(["/query/v1/getLastProcessedTick", "/query/v1/getTransactionByHash"]);
+  });
+
+  it("reads a push-mode epoch rollover from the tick source", async () => {
+    const calls: string[] = [];
+    const listeners = new Set<(tick: bigint) => void>();
+    let epoch = 7n;
+    let initialTick = 0n;
+    const tickSource: ProcessedTickSource = {
+      get epoch() {
+        return epoch;
+      },
+      get initialTick() {
+        return initialTick;
+      },
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    const fetch: FetchLike = async (input) => {
+      calls.push(new URL(getUrl(input)).pathname);
+      return new Response("not found", { status: 404 });
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const confirm = createTxConfirmationHelpers({
+      rpc,
+      tickSource,
+      defaultPollIntervalMs: 1,
+      defaultTimeoutMs: 5_000,
+    });
+
+    const pending = confirm.waitForConfirmation({ txId: "tx", targetTick: 100 }).catch((e) => e);
+    await Promise.resolve();
+    epoch = 8n;
+    initialTick = 150n;
+    for (const listener of listeners) listener(200n);
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(TxEpochChangedError);
+    expect(error).toMatchObject({ fromEpoch: 7n, toEpoch: 8n });
+    expect(calls).toEqual(["/query/v1/getTransactionByHash"]);
+  });
+});
+
+describe("tx confirmation cancellation", () => {
+  it("aborts in-flight requests when the caller signal aborts", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const fetch: FetchLike = (_input, init) => {
+      fetchSignal = init?.signal ?? undefined;
+      return new Promise<Response>(() => {});
+    };
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const confirm = createTxConfirmationHelpers({ rpc, defaultTimeoutMs: 5_000 });
+    const controller = new AbortController();
+    const pending = confirm.waitForConfirmation({
+      txId: "tx",
+      targetTick: 10,
+      signal: controller.signal,
+    });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(TxConfirmationAbortedError);
+    expect(fetchSignal?.aborted).toBe(true);
+  });
+
+  it("times out while a request is hung", async () => {
+    const fetch: FetchLike = () => new Promise<Response>(() => {});
+    const rpc = createRpcClient({ baseUrl: "https://example.test", fetch });
+    const confirm = createTxConfirmationHelpers({ rpc, defaultTimeoutMs: 20 });
+    await expect(
+      confirm.waitForConfirmation({ txId: "tx", targetTick: 10 }),
+    ).rejects.toBeInstanceOf(TxConfirmationTimeoutError);
+  });
+});
+
 function getUrl(input: Parameters<typeof fetch>[0]): string {
   if (typeof input === "string") return input;
   if (input instanceof URL) return input.toString();
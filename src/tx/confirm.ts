@@ -1,5 +1,7 @@
+import type { LogStream } from "../bob/log-stream.js";
 import type { QueryTransaction, RpcClient } from "../rpc/client.js";
 import { RpcError } from "../rpc/client.js";
+import type { TickWatcher } from "../tick-watcher.js";
 
 export type WaitForConfirmationInput = Readonly<{
   txId: string;
@@ -21,10 +23,58 @@ export class TxConfirmationAbortedError extends Error {
   override name = "TxConfirmationAbortedError";
 }
 
+/**
+ * The network moved to a new epoch whose first tick is past `targetTick` without processing
+ * the transaction; ticks skipped at the boundary are never processed, so it will not confirm.
+ */
+export class TxEpochChangedError extends Error {
+  override name = "TxEpochChangedError";
+
+  constructor(
+    readonly txId: string,
+    readonly targetTick: bigint,
+    readonly fromEpoch: bigint,
+    readonly toEpoch: bigint,
+  ) {
+    super(
+      `Epoch changed from ${fromEpoch} to ${toEpoch} before target tick ${targetTick} of ${txId} was processed`,
+    );
+  }
+}
+
+/** Pushes ticks known to be processed, e.g. from a QubicBob log stream or a tick watcher. */
+export type ProcessedTickSource = Readonly<{
+  /** Calls `listener` with processed ticks as they arrive; returns an unsubscribe function. */
+  subscribe(listener: (tick: bigint) => void): () => void;
+  /** Current epoch, if the source tracks it; lets `push` waits notice a rollover. */
+  readonly epoch?: bigint | undefined;
+  /** First tick of `epoch`, if known; a rollover only fails waits whose target is before it. */
+  readonly initialTick?: bigint | undefined;
+}>;
+
+/**
+ * `poll` asks for the last processed tick on every wait; `push` resolves every pending wait
+ * from one shared `tickSource` subscription.
+ */
+export type TxConfirmationStrategy = "poll" | "push";
+
 export type TxConfirmationHelpersConfig = Readonly<{
   rpc: RpcClient;
   defaultTimeoutMs?: number;
   defaultPollIntervalMs?: number;
+  /** Default: `push` when `tickSource` is set, otherwise `poll`. */
+  strategy?: TxConfirmationStrategy;
+  tickSource?: ProcessedTickSource;
+  /**
+   * Supplies `lastProcessedTick` to `poll` waits and the `push` fallback poll, so concurrent
+   * waits share one request per interval instead of polling the RPC each.
+   */
+  tickWatcher?: Pick<TickWatcher, "getLastProcessedTick" | "epoch" | "initialTick">;
+  /**
+   * In `push` mode, falls back to one shared `getLastProcessedTick` poll per interval while the
+   * source has been silent this long (default: 5_000).
+   */
+  pushStaleAfterMs?: number;
 }>;
 
 export type TxConfirmationHelpers = Readonly<{
@@ -37,6 +87,31 @@ export function createTxConfirmationHelpers(
 ): TxConfirmationHelpers {
   const defaultTimeoutMs = config.defaultTimeoutMs ?? 60_000;
   const defaultPollIntervalMs = config.defaultPollIntervalMs ?? 1_000;
+  const strategy = config.strategy ?? (config.tickSource ? "push" : "poll");
+  if (strategy === "push" && !config.tickSource) {
+    throw new TypeError("The push confirmation strategy requires a tickSource");
+  }
+  const tickWatcher = config.tickWatcher;
+
+  /** Reads the last processed tick with its epoch, from the watcher when there is one. */
+  const lastProcessedTick = async (signal: AbortSignal, maxAgeMs: number) => {
+    if (tickWatcher) {
+      const tick = await tickWatcher.getLastProcessedTick({ signal, maxAgeMs });
+      return { tick, epoch: tickWatcher.epoch, initialTick: tickWatcher.initialTick };
+    }
+    const last = await config.rpc.query.getLastProcessedTick({ signal });
+    return { tick: last.tickNumber, epoch: last.epoch, initialTick: last.intervalInitialTick };
+  };
+
+  const gate =
+    strategy === "push" && config.tickSource
+      ? createTickGate({
+          source: config.tickSource,
+          poll: async (signal) => (await lastProcessedTick(signal, defaultPollIntervalMs)).tick,
+          pollIntervalMs: defaultPollIntervalMs,
+          staleAfterMs: config.pushStaleAfterMs ?? 5_000,
+        })
+      : undefined;
 
   const waitForConfirmedTransaction = async (
     input: WaitForConfirmationInput,
@@ -47,44 +122,75 @@ export function createTxConfirmationHelpers(
     const targetTick = toBigint(input.targetTick);
     let reachedTargetTick = false;
     let sawNotFoundAfterTarget = false;
+    let startEpoch = gate ? config.tickSource?.epoch : undefined;
+    let epochChange: TxEpochChangedError | undefined;
+
+    /** Records a rollover once the new epoch starts after the target tick. */
+    const observeEpoch = (epoch: bigint | undefined, initialTick: bigint | undefined) => {
+      if (epoch === undefined) return;
+      startEpoch ??= epoch;
+      if (epoch > startEpoch && initialTick !== undefined && targetTick < initialTick) {
+        epochChange ??= new TxEpochChangedError(input.txId, targetTick, startEpoch, epoch);
+      }
+    };
 
+    // Aborted when the overall timeout elapses so in-flight requests are cancelled too.
     const controller = new AbortController();
     const signals: AbortSignal[] = [controller.signal];
     if (input.signal) signals.push(input.signal);
     const signal = anySignal(signals);
 
+    const stopped = (): Error | undefined => {
+      if (input.signal?.aborted) return new TxConfirmationAbortedError("Confirmation aborted");
+      if (!controller.signal.aborted && Date.now() - start <= timeoutMs) return undefined;
+      if (reachedTargetTick && sawNotFoundAfterTarget) {
+        return new TxNotFoundError(
+          `Transaction ${input.txId} not found after target tick ${targetTick}`,
+        );
+      }
+      return new TxConfirmationTimeoutError(
+        `Timed out waiting for confirmation of ${input.txId} (target tick ${targetTick})`,
+      );
+    };
+
     if (signal.aborted) throw new TxConfirmationAbortedError("Confirmation aborted");
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      while (true) {
+        const stop = stopped();
+        if (stop) throw stop;
 
-    while (true) {
-      if (signal.aborted) throw new TxConfirmationAbortedError("Confirmation aborted");
-      if (Date.now() - start > timeoutMs) {
-        if (reachedTargetTick && sawNotFoundAfterTarget) {
-          throw new TxNotFoundError(
-            `Transaction ${input.txId} not found after target tick ${targetTick}`,
-          );
+        if (gate) {
+          if (!reachedTargetTick) await gate.waitFor(targetTick, signal);
+        } else {
+          const lastProcessed = await lastProcessedTick(signal, pollIntervalMs);
+          observeEpoch(lastProcessed.epoch, lastProcessed.initialTick);
+          if (lastProcessed.tick < targetTick) {
+            await sleep(pollIntervalMs, signal);
+            continue;
+          }
         }
-        throw new TxConfirmationTimeoutError(
-          `Timed out waiting for confirmation of ${input.txId} (target tick ${targetTick})`,
-        );
-      }
+        reachedTargetTick = true;
 
-      const lastProcessed = await config.rpc.query.getLastProcessedTick();
-      if (lastProcessed.tickNumber < targetTick) {
-        await sleep(pollIntervalMs, signal);
-        continue;
-      }
-      reachedTargetTick = true;
-
-      try {
-        return await config.rpc.query.getTransactionByHash(input.txId);
-      } catch (err) {
-        if (err instanceof RpcError && err.details.status === 404) {
-          sawNotFoundAfterTarget = true;
-          await sleep(pollIntervalMs, signal);
-          continue;
+        try {
+          return await config.rpc.query.getTransactionByHash(input.txId, { signal });
+        } catch (err) {
+          if (err instanceof RpcError && err.details.status === 404) {
+            // The push path reads the epoch from its source instead of querying for it.
+            if (gate) observeEpoch(config.tickSource?.epoch, config.tickSource?.initialTick);
+            if (epochChange) throw epochChange;
+            sawNotFoundAfterTarget = true;
+            await sleep(pollIntervalMs, signal);
+            continue;
+          }
+          throw err;
         }
-        throw err;
       }
+    } catch (err) {
+      throw stopped() ?? err;
+    } finally {
+      clearTimeout(timer);
     }
   };
 
@@ -99,6 +205,130 @@ export function createTxConfirmationHelpers(
   };
 }
 
+/**
+ * Reports every tick seen on the stream's logs; ticks without subscribed logs are skipped.
+ * A logged tick only advances the `push` gate: the RPC archive may not serve that tick yet,
+ * so confirmation keeps retrying `getTransactionByHash` until it does or the wait times out.
+ * The epoch comes from the logs too; without an `initialTick` a rollover never fails a wait.
+ */
+export function createLogStreamTickSource(stream: Pick<LogStream, "on">): ProcessedTickSource {
+  let epoch: bigint | undefined;
+  return {
+    get epoch() {
+      return epoch;
+    },
+    subscribe(listener) {
+      return stream.on("log", (message) => {
+        const payload = message.message as Record<string, unknown> | undefined;
+        const logEpoch = payload?.epoch;
+        if (typeof logEpoch === "number" && Number.isSafeInteger(logEpoch)) {
+          if (epoch === undefined || BigInt(logEpoch) > epoch) epoch = BigInt(logEpoch);
+        }
+        const tick = payload?.tick ?? payload?.tickNumber;
+        if (typeof tick === "number" && Number.isSafeInteger(tick)) listener(BigInt(tick));
+      });
+    },
+  };
+}
+
+type TickGateConfig = Readonly<{
+  source: ProcessedTickSource;
+  poll: (signal: AbortSignal) => Promise<bigint>;
+  pollIntervalMs: number;
+  staleAfterMs: number;
+}>;
+
+type TickWaiter = {
+  target: bigint;
+  resolve: () => void;
+};
+
+/**
+ * Holds the waits of one helper instance. The source subscription and the fallback poll only
+ * run while at least one wait is pending.
+ */
+function createTickGate(config: TickGateConfig) {
+  const waiters = new Set<TickWaiter>();
+  let processed: bigint | undefined;
+  let pushedAtMs = 0;
+  let unsubscribe: (() => void) | undefined;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let polling: AbortController | undefined;
+
+  const advance = (tick: bigint) => {
+    if (processed !== undefined && tick <= processed) return;
+    processed = tick;
+    for (const waiter of [...waiters]) {
+      if (waiter.target <= tick) {
+        waiters.delete(waiter);
+        waiter.resolve();
+      }
+    }
+    if (waiters.size === 0) stop();
+  };
+
+  const schedulePoll = () => {
+    pollTimer = setTimeout(async () => {
+      pollTimer = undefined;
+      if (Date.now() - pushedAtMs >= config.staleAfterMs) {
+        polling = new AbortController();
+        try {
+          advance(await config.poll(polling.signal));
+        } catch {
+          // The next interval retries; callers are bounded by their own timeout.
+        } finally {
+          polling = undefined;
+        }
+      }
+      if (waiters.size > 0 && pollTimer === undefined) schedulePoll();
+    }, config.pollIntervalMs);
+  };
+
+  const start = () => {
+    if (unsubscribe) return;
+    // Counts as fresh so the source gets `staleAfterMs` to deliver before polling kicks in.
+    pushedAtMs = Date.now();
+    unsubscribe = config.source.subscribe((tick) => {
+      pushedAtMs = Date.now();
+      advance(tick);
+    });
+    schedulePoll();
+  };
+
+  const stop = () => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+    if (pollTimer !== undefined) clearTimeout(pollTimer);
+    pollTimer = undefined;
+    polling?.abort();
+  };
+
+  return {
+    waitFor(target: bigint, signal: AbortSignal): Promise<void> {
+      if (processed !== undefined && processed >= target) return Promise.resolve();
+      if (signal.aborted)
+        return Promise.reject(new TxConfirmationAbortedError("Confirmation aborted"));
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          waiters.delete(waiter);
+          if (waiters.size === 0) stop();
+          reject(new TxConfirmationAbortedError("Confirmation aborted"));
+        };
+        const waiter: TickWaiter = {
+          target,
+          resolve: () => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+          },
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        waiters.add(waiter);
+        start();
+      });
+    },
+  };
+}
+
 function sleep(ms: number, signal: AbortSignal): Promise<void> {
   if (ms <= 0) return Promise.resolve();
   return new Promise((resolve, reject) => {
@@ -0,0 +1,97 @@
+export type TxRebroadcastOptions = Readonly<{
+  /** Delay between broadcasts of the same signed bytes in ms (default: 3_000). */
+  intervalMs?: number;
+  /** Upper bound on broadcasts, counting the first one (default: unlimited). */
+  maxBroadcasts?: number;
+}>;
+
+export type TxBroadcastAttempt = Readonly<{
+  atMs: number;
+  /** Peers the RPC node relayed this broadcast to. */
+  peersBroadcasted?: number;
+  /** Set instead of `peersBroadcasted` when this broadcast failed. */
+  error?: unknown;
+}>;
+
+export type RebroadcastUntilProcessedInput = TxRebroadcastOptions &
+  Readonly<{
+    targetTick: bigint;
+    broadcast: (signal: AbortSignal) => Promise<Readonly<{ peersBroadcasted?: number }>>;
+    /** Resolves once `lastProcessedTick >= tick`; rejects when `signal` aborts. */
+    waitForProcessedTick: (tick: bigint, signal: AbortSignal) => Promise<unknown>;
+    /** Stops the loop, e.g. once the transaction is confirmed or has failed. */
+    signal: AbortSignal;
+    onAttempt: (attempt: TxBroadcastAttempt) => void;
+    /** Broadcasts already made before the loop started (default: 1). */
+    broadcasts?: number;
+  }>;
+
+/**
+ * Re-sends a transaction every `intervalMs` until its target tick has been processed.
+ * Failed re-sends are reported through `onAttempt` and do not stop the loop; the caller's
+ * confirmation wait decides whether the transaction made it.
+ */
+export function rebroadcastUntilProcessed(input: RebroadcastUntilProcessedInput): Promise<void> {
+  assertRebroadcastOptions(input);
+  const intervalMs = input.intervalMs ?? 3_000;
+  const maxBroadcasts = input.maxBroadcasts ?? Number.POSITIVE_INFINITY;
+  return rebroadcastLoop(input, intervalMs, maxBroadcasts);
+}
+
+/** Throws for invalid options; callers check before broadcasting so nothing is sent in vain. */
+export function assertRebroadcastOptions(options: TxRebroadcastOptions): void {
+  const intervalMs = options.intervalMs ?? 3_000;
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new RangeError("intervalMs must be > 0");
+  }
+  if (!(options.maxBroadcasts === undefined || options.maxBroadcasts >= 1)) {
+    throw new RangeError("maxBroadcasts must be >= 1");
+  }
+}
+
+async function rebroadcastLoop(
+  input: RebroadcastUntilProcessedInput,
+  intervalMs: number,
+  maxBroadcasts: number,
+): Promise<void> {
+  let broadcasts = input.broadcasts ?? 1;
+  while (broadcasts < maxBroadcasts && !input.signal.aborted) {
+    if (await processedWithin(input, intervalMs)) return;
+    if (input.signal.aborted) return;
+    const atMs = Date.now();
+    try {
+      const result = await input.broadcast(input.signal);
+      input.onAttempt({ atMs, peersBroadcasted: result.peersBroadcasted });
+    } catch (error) {
+      if (input.signal.aborted) return;
+      input.onAttempt({ atMs, error });
+    }
+    broadcasts++;
+  }
+}
+
+/** True when the target tick was processed before `ms` elapsed. */
+async function processedWithin(
+  input: RebroadcastUntilProcessedInput,
+  ms: number,
+): Promise<boolean> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  input.signal.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), ms);
+  try {
+    await input.waitForProcessedTick(input.targetTick, controller.signal);
+    return true;
+  } catch {
+    // A failed tick lookup still waits out the interval before the next broadcast.
+    if (!controller.signal.aborted) {
+      await new Promise((resolve) =>
+        controller.signal.addEventListener("abort", resolve, { once: true }),
+      );
+    }
+    return false;
+  } finally {
+    clearTimeout(timer);
+    input.signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,77 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { TxQueueRecord } from "./tx-queue.js";
+import {
+  createFileTxQueueStore,
+  createSqliteTxQueueStore,
+  TxQueueStoreError,
+} from "./tx-queue-store.js";
+
+let currentDir: string | undefined;
+
+afterEach(async () => {
+  if (currentDir) {
+    await rm(currentDir, { recursive: true, force: true });
+    currentDir = undefined;
+  }
+});
+
+const confirming: TxQueueRecord = {
+  id: "a",
+  sourceIdentity: "SRC",
+  targetTick: 12_345_678_901n,
+  createdAtMs: 1,
+  status: "confirming",
+  txId: "tx-a",
+  txBytes: new Uint8Array([0, 1, 254, 255]),
+  broadcasts: [{ atMs: 2, peersBroadcasted: 3 }],
+};
+
+describe("TxQueue stores", () => {
+  it("persists records to a file and reloads them", async () => {
+    currentDir = await mkdtemp(join(tmpdir(), "qubic-txqueue-"));
+    const path = join(currentDir, "queue.json");
+
+    const store = createFileTxQueueStore(path);
+    expect(await store.load()).toEqual([]);
+    await Promise.all([
+      store.save({ ...confirming, status: "submitted" }),
+      store.save(confirming),
+      store.save({
+        id: "b",
+        sourceIdentity: "SRC",
+        targetTick: 5n,
+        createdAtMs: 3,
+        status: "failed",
+        error: "boom",
+      }),
+    ]);
+
+    const reloaded = await createFileTxQueueStore(path).load();
+    expect(reloaded).toHaveLength(2);
+    expect(reloaded.find((r) => r.id === "a")).toEqual(confirming);
+    expect(reloaded.find((r) => r.id === "b")?.error).toBe("boom");
+    expect(await readFile(path, "utf8")).not.toContain("\n");
+  });
+
+  it("rejects a corrupt queue file", async () => {
+    currentDir = await mkdtemp(join(tmpdir(), "qubic-txqueue-"));
+    const path = join(currentDir, "queue.json");
+    await writeFile(path, JSON.stringify({ version: 1, items: [{ id: "a" }] }));
+    await expect(createFileTxQueueStore(path).load()).rejects.toBeInstanceOf(TxQueueStoreError);
+  });
+
+  it("persists records to SQLite", () => {
+    const db = new Database(":memory:");
+    const store = createSqliteTxQueueStore(db);
+    expect(store.load()).toEqual([]);
+    store.save({ ...confirming, status: "submitted" });
+    store.save(confirming);
+
+    expect(createSqliteTxQueueStore(db).load()).toEqual([confirming]);
+    expect(() => createSqliteTxQueueStore(db, { table: "x; drop" })).toThrow(RangeError);
+  });
+});
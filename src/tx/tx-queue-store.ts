@@ -0,0 +1,221 @@
+import { readFile } from "node:fs/promises";
+import { SdkError } from "../errors.js";
+import { isNotFoundError, type SqliteDatabaseLike, writeFileAtomic } from "../storage.js";
+import type { TxBroadcastAttempt } from "./rebroadcast.js";
+import type { TxQueueItemStatus, TxQueueRecord, TxQueueStore } from "./tx-queue.js";
+
+export class TxQueueStoreError extends SdkError {
+  override name = "TxQueueStoreError";
+
+  constructor(message: string, cause?: unknown) {
+    super("tx_queue_store_invalid", message, undefined, cause);
+  }
+}
+
+/** Keeps records for the lifetime of the process; useful for tests and as a reference. */
+export function createMemoryTxQueueStore(): TxQueueStore {
+  const records = new Map<string, TxQueueRecord>();
+  return {
+    load() {
+      return [...records.values()];
+    },
+    save(record) {
+      records.set(record.id, record);
+    },
+    delete(ids) {
+      for (const id of ids) records.delete(id);
+    },
+  };
+}
+
+/**
+ * Keeps every record in one compact JSON file, rewritten through an fsynced temporary file on
+ * each save, so a crash leaves either the previous or the new queue on disk. Each save costs a
+ * full rewrite and fsync, so keep the queue's retention bounded; for large or busy queues use
+ * `createSqliteTxQueueStore`.
+ */
+export function createFileTxQueueStore(path: string): TxQueueStore {
+  let loading: Promise<Map<string, TxQueueRecord>> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    loading ??= readQueueFile(path).catch((error: unknown) => {
+      loading = undefined;
+      throw error;
+    });
+    return loading;
+  };
+
+  const write = (records: Map<string, TxQueueRecord>) => {
+    const text = JSON.stringify({ version: 1, items: [...records.values()].map(encodeRecord) });
+    // Writes share one temporary file, so they must not overlap.
+    const next = writing.then(() => writeFileAtomic(path, text));
+    writing = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    async load() {
+      return [...(await load()).values()];
+    },
+    async save(record) {
+      const records = await load();
+      records.set(record.id, record);
+      return write(records);
+    },
+    async delete(ids) {
+      const records = await load();
+      for (const id of ids) records.delete(id);
+      return write(records);
+    },
+  };
+}
+
+export type SqliteTxQueueStoreOptions = Readonly<{
+  /** Table holding one row per queue item (default: `tx_queue`). */
+  table?: string;
+}>;
+
+/** Stores each record as a JSON row keyed by item id, creating the table if needed. */
+export function createSqliteTxQueueStore(
+  db: SqliteDatabaseLike,
+  options: SqliteTxQueueStoreOptions = {},
+): TxQueueStore {
+  const table = options.table ?? "tx_queue";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new RangeError(`Invalid SQLite table name: ${table}`);
+  }
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, source_identity TEXT NOT NULL, status TEXT NOT NULL, data TEXT NOT NULL, updated_at INTEGER NOT NULL)`,
+  );
+  const select = db.prepare(`SELECT json_group_array(data) AS items FROM ${table}`);
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (id, source_identity, status, data, updated_at) VALUES (?, ?, ?, ?, ?) ` +
+      "ON CONFLICT(id) DO UPDATE SET source_identity = excluded.source_identity, " +
+      "status = excluded.status, data = excluded.data, updated_at = excluded.updated_at",
+  );
+  const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+  return {
+    load() {
+      const row = select.get() as { items: string } | null | undefined;
+      const items = JSON.parse(row?.items ?? "[]") as unknown[];
+      return items.map((item, i) =>
+        decodeRecord(typeof item === "string" ? JSON.parse(item) : item, `${table}[${i}]`),
+      );
+    },
+    save(record) {
+      upsert.run(
+        record.id,
+        record.sourceIdentity,
+        record.status,
+        JSON.stringify(encodeRecord(record)),
+        Date.now(),
+      );
+    },
+    delete(ids) {
+      for (const id of ids) remove.run(id);
+    },
+  };
+}
+
+type EncodedRecord = Readonly<{
+  id: string;
+  sourceIdentity: string;
+  targetTick: string;
+  createdAtMs: number;
+  finishedAtMs?: number;
+  status: TxQueueItemStatus;
+  txId?: string;
+  txBytesHex?: string;
+  error?: string;
+  broadcasts?: readonly TxBroadcastAttempt[];
+}>;
+
+const STATUSES: readonly TxQueueItemStatus[] = [
+  "pending",
+  "submitted",
+  "confirming",
+  "confirmed",
+  "failed",
+  "superseded",
+  "cancelled",
+];
+
+function encodeRecord(record: TxQueueRecord): EncodedRecord {
+  return {
+    id: record.id,
+    sourceIdentity: record.sourceIdentity,
+    targetTick: record.targetTick.toString(),
+    createdAtMs: record.createdAtMs,
+    finishedAtMs: record.finishedAtMs,
+    status: record.status,
+    txId: record.txId,
+    txBytesHex: record.txBytes ? toHex(record.txBytes) : undefined,
+    error: record.error,
+    broadcasts: record.broadcasts,
+  };
+}
+
+function decodeRecord(value: unknown, label: string): TxQueueRecord {
+  const obj = value as Partial<EncodedRecord> | null;
+  if (
+    !obj ||
+    typeof obj !== "object" ||
+    typeof obj.id !== "string" ||
+    typeof obj.sourceIdentity !== "string" ||
+    typeof obj.targetTick !== "string" ||
+    !/^\d+$/.test(obj.targetTick) ||
+    typeof obj.createdAtMs !== "number" ||
+    !STATUSES.includes(obj.status as TxQueueItemStatus) ||
+    (obj.txBytesHex !== undefined && !/^(?:[0-9a-f]{2})*$/.test(obj.txBytesHex))
+  ) {
+    throw new TxQueueStoreError(`Invalid TxQueue record: ${label}`);
+  }
+  return {
+    id: obj.id,
+    sourceIdentity: obj.sourceIdentity,
+    targetTick: BigInt(obj.targetTick),
+    createdAtMs: obj.createdAtMs,
+    finishedAtMs: typeof obj.finishedAtMs === "number" ? obj.finishedAtMs : undefined,
+    status: obj.status as TxQueueItemStatus,
+    txId: typeof obj.txId === "string" ? obj.txId : undefined,
+    txBytes: obj.txBytesHex === undefined ? undefined : fromHex(obj.txBytesHex),
+    error: typeof obj.error === "string" ? obj.error : undefined,
+    broadcasts: Array.isArray(obj.broadcasts) ? obj.broadcasts : undefined,
+  };
+}
+
+async function readQueueFile(path: string): Promise<Map<string, TxQueueRecord>> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if (isNotFoundError(error)) return new Map();
+    throw error;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new TxQueueStoreError(`Invalid TxQueue file: ${path}`, error);
+  }
+  const items = (parsed as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) throw new TxQueueStoreError(`Invalid TxQueue file: ${path}`);
+  const records = new Map<string, TxQueueRecord>();
+  items.forEach((item, i) => {
+    const record = decodeRecord(item, `${path}[${i}]`);
+    records.set(record.id, record);
+  });
+  return records;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
@@ -1,5 +1,18 @@
 import { describe, expect, it } from "bun:test";
-import { TxQueue, TxQueueError } from "./tx-queue.js";
+import {
+  buildSignedTransaction,
+  privateKeyFromSeed,
+  publicKeyFromSeed,
+  transactionId,
+} from "@qubic-labs/core";
+import {
+  DEFAULT_STORED_ITEMS_PER_SOURCE,
+  TxQueue,
+  TxQueueError,
+  type TxQueueStatusChange,
+  type TxQueueStore,
+} from "./tx-queue.js";
+import { createMemoryTxQueueStore } from "./tx-queue-store.js";
 
 function createDeferred<T>() {
   let resolve!: (value: T) => void;
@@ -137,6 +150,481 @@ describe("TxQueue", () => {
     const r2 = await p2;
     expect(r2.status).toBe("confirmed");
   });
+
+  it("rebroadcasts while confirming until the target tick is processed", async () => {
+    const processed = createDeferred<void>();
+    const confirmed = createDeferred<void>();
+    let peers = 3;
+
+    const q = new TxQueue({ confirm: () => confirmed.promise });
+    const pending = q.enqueue({
+      sourceIdentity: "A",
+      targetTick: 10,
+      async submit() {
+        return { txId: "tx1", result: "r1", peersBroadcasted: 2 };
+      },
+      rebroadcast: {
+        intervalMs: 5,
+        async broadcast() {
+          if (peers === 5) processed.resolve();
+          return { peersBroadcasted: peers++ };
+        },
+        waitForProcessedTick: (_tick, signal) =>
+          new Promise((resolve, reject) => {
+            processed.promise.then(resolve);
+            signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+          }),
+      },
+    });
+
+    await processed.promise;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    confirmed.resolve();
+    const item = await pending;
+
+    expect(item.status).toBe("confirmed");
+    expect(item.broadcasts?.map((b) => b.peersBroadcasted)).toEqual([2, 3, 4, 5]);
+  });
+
+  it("rejects invalid rebroadcast options at enqueue", async () => {
+    let submitted = false;
+    const q = new TxQueue({ confirm: async () => {} });
+    await expect(
+      q.enqueue({
+        sourceIdentity: "A",
+        targetTick: 10,
+        async submit() {
+          submitted = true;
+          return { txId: "tx1", result: "r1" };
+        },
+        rebroadcast: {
+          maxBroadcasts: 0,
+          broadcast: async () => ({}),
+          waitForProcessedTick: async () => {},
+        },
+      }),
+    ).rejects.toBeInstanceOf(RangeError);
+    expect(submitted).toBe(false);
+  });
+
+  it("resumes unconfirmed items from its store before accepting new ones", async () => {
+    const store = createMemoryTxQueueStore();
+    const firstRun = new TxQueue({ store, confirm: () => new Promise(() => {}) });
+    void firstRun.enqueue({
+      sourceIdentity: "A",
+      targetTick: 10,
+      txBytes: new Uint8Array([1, 2]),
+      async submit() {
+        return { txId: "tx1", result: "r1" };
+      },
+    });
+    await firstRun.ready();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    store.save({ id: "p", sourceIdentity: "B", targetTick: 5n, createdAtMs: 0, status: "pending" });
+
+    // A new process: tx1 was mid-confirmation, "p" never got submitted.
+    const resumed = createDeferred<void>();
+    const confirmed: string[] = [];
+    const secondRun = new TxQueue({
+      store,
+      async confirm({ txId }) {
+        confirmed.push(txId);
+        if (txId === "tx1") await resumed.promise;
+      },
+    });
+    await secondRun.ready();
+    expect(secondRun.getActive("A")).toMatchObject({ txId: "tx1", recovered: true });
+    expect(secondRun.getItems("B")[0]?.status).toBe("failed");
+
+    const next = secondRun.enqueue({
+      sourceIdentity: "A",
+      targetTick: 11,
+      async submit() {
+        return { txId: "tx2", result: "r2" };
+      },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(confirmed).toEqual(["tx1"]);
+
+    resumed.resolve();
+    expect((await next).status).toBe("confirmed");
+    expect(confirmed).toEqual(["tx1", "tx2"]);
+    const stored = await store.load();
+    expect(stored.find((r) => r.txId === "tx1")).toMatchObject({
+      status: "confirmed",
+      txBytes: new Uint8Array([1, 2]),
+    });
+  });
+
+  it("confirms items interrupted while submitting by the id of their bytes", async () => {
+    const seed = "jvhbyzjinlyutyuhsweuxiwootqoevjqwqmdhjeohrytxjxidpbcfyg";
+    const txBytes = await buildSignedTransaction(
+      {
+        sourcePublicKey32: await publicKeyFromSeed(seed),
+        destinationPublicKey32: await publicKeyFromSeed(seed),
+        amount: 1n,
+        tick: 10,
+      },
+      await privateKeyFromSeed(seed),
+    );
+    const store = createMemoryTxQueueStore();
+    store.save({
+      id: "p",
+      sourceIdentity: "A",
+      targetTick: 10n,
+      createdAtMs: 0,
+      status: "pending",
+      txBytes,
+    });
+
+    const confirmed = createDeferred<void>();
+    const confirming: string[] = [];
+    const q = new TxQueue({
+      store,
+      async confirm({ txId }) {
+        confirming.push(txId);
+        await confirmed.promise;
+      },
+    });
+    await q.ready();
+
+    const txId = await transactionId(txBytes);
+    expect(confirming).toEqual([txId]);
+    expect(q.getActive("A")).toMatchObject({ id: "p", status: "confirming", txId });
+    confirmed.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(q.getItems("A")[0]?.status).toBe("confirmed");
+  });
+  it("emits status transitions, streams them and aggregates stats", async () => {
+    const confirmations = new Map<string, ReturnType<typeof createDeferred<void>>>();
+    confirmations.set("tx1", createDeferred<void>());
+    confirmations.set("tx2", createDeferred<void>());
+    const q = new TxQueue({
+      confirm: ({ txId }) => mustGet(confirmations, txId).promise,
+    });
+
+    const failed: TxQueueStatusChange[] = [];
+    q.on("failed", (change) => failed.push(change));
+    const controller = new AbortController();
+    const streamed: string[] = [];
+    const reading = (async () => {
+      for await (const change of q.changes({ sourceIdentity: "A", signal: controller.signal })) {
+        streamed.push(`${change.from ?? "-"}>${change.to}`);
+      }
+    })();
+
+    const p1 = q.enqueue({
+      sourceIdentity: "A",
+      targetTick: 10,
+      async submit() {
+        return { txId: "tx1", result: "r1" };
+      },
+    });
+    const p2 = q.enqueue({
+      sourceIdentity: "A",
+      targetTick: 11,
+      async submit() {
+        return { txId: "tx2", result: "r2" };
+      },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(q.getStats().inFlightBySource.get("A")).toBe(2);
+
+    mustGet(confirmations, "tx1").resolve();
+    await p1;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    mustGet(confirmations, "tx2").reject(new Error("dropped"));
+    await p2;
+    controller.abort();
+    await reading;
+
+    // tx2 is queued as pending right away and submitted once tx1 is confirmed.
+    expect(streamed).toEqual([
+      "->pending",
+      "->pending",
+      "pending>submitted",
+      "submitted>confirming",
+      "confirming>confirmed",
+      "pending>submitted",
+      "submitted>confirming",
+      "confirming>failed",
+    ]);
+    expect(failed).toHaveLength(1);
+    expect(failed[0]?.error).toBeInstanceOf(Error);
+    expect((failed[0]?.error as Error | undefined)?.message).toBe("dropped");
+    expect(failed[0]?.item.txId).toBe("tx2");
+
+    const stats = q.getStats();
+    expect(stats.inFlight).toBe(0);
+    expect(stats.byStatus.confirmed).toBe(1);
+    expect(stats.failed).toBe(1);
+    expect(stats.confirmLatencyMs.count).toBe(1);
+    expect(stats.confirmLatencyMs.p50).toBeGreaterThanOrEqual(0);
+  });
+
+  it("evicts finished items per the retention policy and filters getItems", async () => {
+    const store = createMemoryTxQueueStore();
+    const now = Date.now();
+    const finished = (
+      id: string,
+      createdAtMs: number,
+      status: "confirmed" | "failed",
+      ageMs: number,
+    ) =>
+      store.save({
+        id,
+        sourceIdentity: "A",
+        targetTick: BigInt(createdAtMs),
+        createdAtMs,
+        finishedAtMs: now - ageMs,
+        status,
+        txId: id,
+      });
+    finished("a1", 1, "confirmed", 5_000);
+    finished("a2", 2, "failed", 5_000);
+    finished("a3", 3, "confirmed", 100);
+    finished("a4", 4, "confirmed", 50);
+    store.save({
+      id: "b1",
+      sourceIdentity: "B",
+      targetTick: 5n,
+      createdAtMs: 5,
+      status: "pending",
+    });
+
+    const q = new TxQueue({
+      store,
+      confirm: async () => {},
+      retention: { maxItemsPerSource: 3, maxAgeMs: 1_000, failedMaxAgeMs: 10_000 },
+    });
+    await q.ready();
+
+    const ids = (items: readonly { id: string }[]) => items.map((item) => item.id);
+    expect(ids(q.getItems("A"))).toEqual(["a2", "a3", "a4"]);
+    expect(ids(q.getItems({ status: "failed" }))).toEqual(["a2", "b1"]);
+    expect(ids(q.getItems({ sourceIdentity: "A", status: ["confirmed"], sinceMs: 3 }))).toEqual([
+      "a3",
+      "a4",
+    ]);
+    expect(ids(q.getItems({ untilMs: 3 }))).toEqual(["a2"]);
+    expect(q.prune()).toBe(0);
+
+    const next = await q.enqueue({
+      sourceIdentity: "A",
+      targetTick: 10,
+      async submit() {
+        return { txId: "tx5", result: "r5" };
+      },
+    });
+    expect(next.finishedAtMs).toBeGreaterThanOrEqual(now);
+    expect(ids(q.getItems("A"))).toEqual(["a3", "a4", next.id]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(ids(await store.load()).sort()).toEqual(["a3", "a4", "b1", next.id].sort());
+  });
+
+  it("bounds finished items per source by default when a store is set", async () => {
+    const store = createMemoryTxQueueStore();
+    for (let i = 0; i <= DEFAULT_STORED_ITEMS_PER_SOURCE; i += 1) {
+      store.save({
+        id: `a${i}`,
+        sourceIdentity: "A",
+        targetTick: BigInt(i),
+        createdAtMs: i,
+        finishedAtMs: i,
+        status: "confirmed",
+        txId: `a${i}`,
+      });
+    }
+
+    const q = new TxQueue({ store, confirm: async () => {} });
+    await q.ready();
+    expect(q.getItems("A")).toHaveLength(DEFAULT_STORED_ITEMS_PER_SOURCE);
+    expect(q.getItems("A")[0]?.id).toBe("a1");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await store.load()).toHaveLength(DEFAULT_STORED_ITEMS_PER_SOURCE);
+  });
+
+  it("cancels queued and active items, drains and pauses sources", async () => {
+    const confirmations = new Map<string, ReturnType<typeof createDeferred<void>>>();
+    const submitted: string[] = [];
+    const q = new TxQueue({
+      confirm: ({ txId, signal }) => {
+        const d = createDeferred<void>();
+        confirmations.set(txId, d);
+        signal.addEventListener("abort", () => d.reject(signal.reason), { once: true });
+        return d.promise;
+      },
+    });
+    const enqueue = (txId: string, signal?: AbortSignal) =>
+      q.enqueue({
+        sourceIdentity: "A",
+        targetTick: 10,
+        signal,
+        async submit() {
+          submitted.push(txId);
+          return { txId, result: txId };
+        },
+      });
+
+    const p1 = enqueue("tx1");
+    const p2 = enqueue("tx2");
+    const controller = new AbortController();
+    const p3 = enqueue("tx3", controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [, queued2, queued3] = q.getItems("A");
+
+    expect(q.cancel(queued2?.id ?? "")).toBe(true);
+    const cancelled2 = await p2;
+    expect(cancelled2.status).toBe("cancelled");
+    expect(cancelled2.txId).toBeUndefined();
+    controller.abort(new Error("user closed the dialog"));
+    const cancelled3 = await p3;
+    expect(cancelled3.status).toBe("cancelled");
+    expect((cancelled3.error as Error).message).toBe("user closed the dialog");
+    expect(queued3?.id).toBe(cancelled3.id);
+
+    // Cancelling the active item frees the source for the next one.
+    q.pause("A");
+    const p4 = enqueue("tx4");
+    expect(q.cancel(q.getActive("A")?.id ?? "")).toBe(true);
+    expect((await p1).status).toBe("cancelled");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(submitted).toEqual(["tx1"]);
+    expect(q.getActive("A")).toBeUndefined();
+
+    q.resume("A");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(submitted).toEqual(["tx1", "tx4"]);
+    const p5 = enqueue("tx5");
+    const drained = q.drain("A");
+    expect((await p5).status).toBe("cancelled");
+    mustGet(confirmations, "tx4").resolve();
+    await drained;
+    expect((await p4).status).toBe("confirmed");
+    expect(q.cancel(cancelled3.id)).toBe(false);
+    expect(q.getStats()).toMatchObject({ cancelled: 4, confirmed: 1, inFlight: 0 });
+  });
+
+  it("does not submit an item cancelled while its record is being saved", async () => {
+    const memory = createMemoryTxQueueStore();
+    const store: TxQueueStore = {
+      ...memory,
+      async save(record) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        memory.save(record);
+      },
+    };
+    let submits = 0;
+    const q = new TxQueue({ store, confirm: async () => {} });
+    const pending = q.enqueue({
+      sourceIdentity: "A",
+      targetTick: 10,
+      async submit() {
+        submits += 1;
+        return { txId: "tx1", result: "r1" };
+      },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [item] = q.getItems("A");
+
+    expect(q.cancel(item?.id ?? "")).toBe(true);
+    expect((await pending).status).toBe("cancelled");
+    // Outlast the save that was in flight when the item was cancelled.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(submits).toBe(0);
+    expect(q.getItems("A")[0]?.status).toBe("cancelled");
+  });
+
+  it("orders queued items by priority and fails them past maxWaitMs", async () => {
+    const confirmations = new Map<string, ReturnType<typeof createDeferred<void>>>();
+    const submitted: string[] = [];
+    const q = new TxQueue({
+      confirm: ({ txId }) => {
+        const d = createDeferred<void>();
+        confirmations.set(txId, d);
+        return d.promise;
+      },
+      maxWaitMs: 20,
+    });
+    const enqueue = (txId: string, options: { priority?: number; maxWaitMs?: number } = {}) =>
+      q.enqueue({
+        sourceIdentity: "A",
+        targetTick: 10,
+        ...options,
+        async submit() {
+          submitted.push(txId);
+          return { txId, result: txId };
+        },
+      });
+
+    const p1 = enqueue("tx1");
+    const p2 = enqueue("tx2", { maxWaitMs: 1_000 });
+    const p3 = enqueue("tx3", { priority: 10, maxWaitMs: 1_000 });
+    const p4 = enqueue("tx4");
+    expect(q.getItems("A").map((item) => item.priority)).toEqual([
+      undefined,
+      undefined,
+      10,
+      undefined,
+    ]);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const expired = await p4;
+    expect(expired.status).toBe("failed");
+    expect(expired.error).toBeInstanceOf(TxQueueError);
+    // tx1 started submitting before its deadline, so it is left to confirm.
+    expect(q.getActive("A")?.txId).toBe("tx1");
+
+    mustGet(confirmations, "tx1").resolve();
+    await p1;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    mustGet(confirmations, "tx3").resolve();
+    await p3;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    mustGet(confirmations, "tx2").resolve();
+    expect((await p2).status).toBe("confirmed");
+    expect(submitted).toEqual(["tx1", "tx3", "tx2"]);
+  });
+
+  for (const [fairness, expected] of [
+    ["fifo", ["a1", "b1", "a2", "c1"]],
+    ["roundRobin", ["a1", "b1", "c1", "a2"]],
+  ] as const) {
+    it(`shares maxConcurrentSubmits slots between sources (${fairness})`, async () => {
+      const submits = new Map<string, ReturnType<typeof createDeferred<void>>>();
+      const started: string[] = [];
+      const q = new TxQueue({ confirm: async () => {}, maxConcurrentSubmits: 1, fairness });
+      const enqueue = (sourceIdentity: string, txId: string) => {
+        submits.set(txId, createDeferred<void>());
+        return q.enqueue({
+          sourceIdentity,
+          targetTick: 10,
+          async submit() {
+            started.push(txId);
+            await mustGet(submits, txId).promise;
+            return { txId, result: txId };
+          },
+        });
+      };
+
+      const all = [enqueue("A", "a1"), enqueue("A", "a2"), enqueue("B", "b1"), enqueue("C", "c1")];
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(started).toEqual(["a1"]);
+      // Once a1 is done, a2 competes with c1 for the slot b1 frees.
+      for (const txId of ["a1", "b1", "a2", "c1"]) {
+        mustGet(submits, txId).resolve();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      expect(started).toEqual([...expected]);
+      for (const p of all) expect((await p).status).toBe("confirmed");
+    });
+  }
+
+  it("rejects invalid maxConcurrentSubmits and maxWaitMs", () => {
+    const confirm = async () => {};
+    expect(() => new TxQueue({ confirm, maxConcurrentSubmits: 0 })).toThrow(RangeError);
+    expect(() => new TxQueue({ confirm, maxWaitMs: -1 })).toThrow(RangeError);
+  });
 });
 
 function mustGet<K, V>(map: ReadonlyMap<K, V>, key: K): V {
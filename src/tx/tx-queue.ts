@@ -1,12 +1,27 @@
+import { transactionId } from "@qubic-labs/core";
+import {
+  assertRebroadcastOptions,
+  rebroadcastUntilProcessed,
+  type TxBroadcastAttempt,
+  type TxRebroadcastOptions,
+} from "./rebroadcast.js";
+
 export type TxQueuePolicy = "waitForConfirm" | "reject" | "replaceHigherTick";
 
+/**
+ * Picks which waiting item gets a free submit slot among equal priorities: `fifo` the oldest,
+ * `roundRobin` the one whose source was served least recently.
+ */
+export type TxQueueFairness = "fifo" | "roundRobin";
+
 export type TxQueueItemStatus =
   | "pending"
   | "submitted"
   | "confirming"
   | "confirmed"
   | "failed"
-  | "superseded";
+  | "superseded"
+  | "cancelled";
 
 export type TxQueueConfirmFn = (input: {
   txId: string;
@@ -17,24 +32,177 @@ export type TxQueueConfirmFn = (input: {
 export type TxQueueConfig = Readonly<{
   policy?: TxQueuePolicy;
   confirm: TxQueueConfirmFn;
+  /**
+   * Persists every item change. On start the queue reloads it and resumes confirmation of
+   * unfinished items before accepting new enqueues. Items interrupted while submitting are
+   * confirmed by the id of their `txBytes`; without bytes they fail.
+   */
+  store?: TxQueueStore;
+  /** Called when a store write fails; the item keeps running with its in-memory state. */
+  onStoreError?: (error: unknown) => void;
+  /**
+   * Evicts finished items (default: keeps every item, or the newest
+   * `DEFAULT_STORED_ITEMS_PER_SOURCE` per source when a `store` is set, since stores such as
+   * `createFileTxQueueStore` rewrite every kept record on each save).
+   */
+  retention?: TxQueueRetention;
+  /**
+   * Fails items that have not started submitting this long after `enqueue`, in ms, whether
+   * queued behind their source or waiting for a submit slot (default: no deadline).
+   */
+  maxWaitMs?: number;
+  /** Items submitting at once across all sources (default: unlimited). */
+  maxConcurrentSubmits?: number;
+  /** How free submit slots are shared between sources (default: `fifo`). */
+  fairness?: TxQueueFairness;
+}>;
+
+/**
+ * Applies to finished items (`confirmed`, `failed`, `superseded`, `cancelled`) only; active
+ * and queued items are never evicted. Checked whenever an item finishes, after recovery, and
+ * on `prune()`.
+ */
+/** Finished items kept per source when a store is set and no `retention` is given. */
+export const DEFAULT_STORED_ITEMS_PER_SOURCE = 100;
+
+export type TxQueueRetention = Readonly<{
+  /** Finished items kept per source, newest first. */
+  maxItemsPerSource?: number;
+  /** Finished items are dropped this long after they finished, in ms. */
+  maxAgeMs?: number;
+  /** Replaces `maxAgeMs` for `failed` items, so failures can be inspected for longer. */
+  failedMaxAgeMs?: number;
+}>;
+
+export type TxQueueItemFilter = Readonly<{
+  sourceIdentity?: string;
+  status?: TxQueueItemStatus | readonly TxQueueItemStatus[];
+  /** Inclusive lower bound on `createdAtMs`. */
+  sinceMs?: number;
+  /** Exclusive upper bound on `createdAtMs`. */
+  untilMs?: number;
+}>;
+
+/** A queue item as persisted by a `TxQueueStore`; errors are kept as their message. */
+export type TxQueueRecord = Readonly<{
+  id: string;
+  sourceIdentity: string;
+  targetTick: bigint;
+  createdAtMs: number;
+  finishedAtMs?: number;
+  status: TxQueueItemStatus;
+  txId?: string;
+  txBytes?: Uint8Array;
+  error?: string;
+  broadcasts?: readonly TxBroadcastAttempt[];
+}>;
+
+export type TxQueueStore = Readonly<{
+  /** Every stored record; called once when the queue starts. */
+  load(): readonly TxQueueRecord[] | Promise<readonly TxQueueRecord[]>;
+  /** Inserts the record or replaces the one with the same `id`. */
+  save(record: TxQueueRecord): void | Promise<void>;
+  /** Drops records evicted by the retention policy; without it they stay stored. */
+  delete?(ids: readonly string[]): void | Promise<void>;
 }>;
 
 export type EnqueueTxInput<Result> = Readonly<{
   sourceIdentity: string;
   targetTick: bigint | number;
-  submit: (input: { signal: AbortSignal }) => Promise<Readonly<{ txId: string; result: Result }>>;
+  /** Signed bytes, persisted so the transaction can be inspected or re-sent after a restart. */
+  txBytes?: Uint8Array;
+  /** `peersBroadcasted`, when returned, is recorded as the first entry of `broadcasts`. */
+  submit: (input: {
+    signal: AbortSignal;
+  }) => Promise<Readonly<{ txId: string; result: Result; peersBroadcasted?: number }>>;
   confirm?: TxQueueConfirmFn;
+  /** Re-sends the submitted transaction while it is confirming, until its target tick is processed. */
+  rebroadcast?: TxQueueRebroadcast;
+  /** Cancels the item when aborted, like `cancel(id, signal.reason)`. */
+  signal?: AbortSignal;
+  /** Higher starts first, within its source and for submit slots (default: 0). */
+  priority?: number;
+  /** Overrides `TxQueueConfig.maxWaitMs` for this item. */
+  maxWaitMs?: number;
 }>;
 
+export type TxQueueRebroadcast = TxRebroadcastOptions &
+  Readonly<{
+    broadcast: (signal: AbortSignal) => Promise<Readonly<{ peersBroadcasted?: number }>>;
+    waitForProcessedTick: (tick: bigint, signal: AbortSignal) => Promise<unknown>;
+  }>;
+
 export type TxQueueItem<Result> = Readonly<{
   id: string;
   sourceIdentity: string;
   targetTick: bigint;
   createdAtMs: number;
+  /** When the item became `confirmed`, `failed`, `superseded` or `cancelled`. */
+  finishedAtMs?: number;
+  /** Set when enqueued with a `priority`. */
+  priority?: number;
   status: TxQueueItemStatus;
   txId?: string;
+  txBytes?: Uint8Array;
   result?: Result;
   error?: unknown;
+  /** Loaded from the store on start rather than enqueued by this process. */
+  recovered?: boolean;
+  /** Every broadcast of this item, including rebroadcasts. */
+  broadcasts?: readonly TxBroadcastAttempt[];
+}>;
+
+export type TxQueueStatusChange = Readonly<{
+  /** Snapshot taken right after the transition. */
+  item: TxQueueItem<unknown>;
+  /** Unset when the item was just enqueued or loaded from the store. */
+  from?: TxQueueItemStatus;
+  to: TxQueueItemStatus;
+  atMs: number;
+  /** Time spent in `from`. */
+  elapsedMs?: number;
+  /** Time since the item was created. */
+  totalMs: number;
+  /** Set on `failed`, and on `cancelled` when a reason was given. */
+  error?: unknown;
+}>;
+
+/** `change` sees every transition; the per-status events only the ones into that status. */
+export type TxQueueEvents = { change: (change: TxQueueStatusChange) => void } & {
+  [S in TxQueueItemStatus]: (change: TxQueueStatusChange) => void;
+};
+
+export type TxQueueEvent = keyof TxQueueEvents;
+
+export type TxQueueChangesOptions = Readonly<{
+  /** Only yields changes of this source's items. */
+  sourceIdentity?: string;
+  /** Ends the iteration when aborted. */
+  signal?: AbortSignal;
+}>;
+
+export type TxQueueLatencyStats = Readonly<{
+  /** Samples behind the percentiles: the most recent confirmations, up to 1_000. */
+  count: number;
+  p50?: number;
+  p90?: number;
+  p99?: number;
+  max?: number;
+}>;
+
+export type TxQueueStats = Readonly<{
+  /** Active items plus queued ones waiting for them, over all sources. */
+  inFlight: number;
+  inFlightBySource: ReadonlyMap<string, number>;
+  /** Items currently held by the queue, by status. */
+  byStatus: Readonly<Record<TxQueueItemStatus, number>>;
+  /** Transitions since the queue was created. */
+  confirmed: number;
+  failed: number;
+  superseded: number;
+  cancelled: number;
+  /** From `submitted` to `confirmed`, in ms. */
+  confirmLatencyMs: TxQueueLatencyStats;
 }>;
 
 export class TxQueueError extends Error {
@@ -44,53 +212,271 @@ export class TxQueueError extends Error {
 export class TxQueue {
   readonly #policy: TxQueuePolicy;
   readonly #confirm: TxQueueConfirmFn;
+  readonly #store: TxQueueStore | undefined;
+  readonly #onStoreError: ((error: unknown) => void) | undefined;
+  readonly #retention: TxQueueRetention;
+  readonly #maxWaitMs: number | undefined;
+  readonly #maxConcurrentSubmits: number | undefined;
+  readonly #fairness: TxQueueFairness;
+  readonly #ready: Promise<void>;
+  #saving: Promise<void> = Promise.resolve();
 
   readonly #activeBySource = new Map<string, ActiveItem<unknown>>();
   readonly #itemsBySource = new Map<string, TxQueueItem<unknown>[]>();
+  readonly #waitingBySource = new Map<string, QueuedItem[]>();
+  readonly #paused = new Set<string>();
+  readonly #deadlines = new Map<string, ReturnType<typeof setTimeout>>();
+  readonly #slotWaiters: SlotWaiter[] = [];
+  readonly #servedAtBySource = new Map<string, number>();
+  readonly #enqueueOrder = new WeakMap<TxQueueItem<unknown>, number>();
+  #submitting = 0;
+  #served = 0;
+  #enqueued = 0;
+
+  readonly #listeners = new Map<TxQueueEvent, Set<(change: TxQueueStatusChange) => void>>();
+  readonly #changedAtMs = new WeakMap<TxQueueItem<unknown>, number>();
+  readonly #submittedAtMs = new WeakMap<TxQueueItem<unknown>, number>();
+  readonly #confirmLatencies: number[] = [];
+  readonly #totals = { confirmed: 0, failed: 0, superseded: 0, cancelled: 0 };
 
   constructor(config: TxQueueConfig) {
     this.#policy = config.policy ?? "waitForConfirm";
     this.#confirm = config.confirm;
+    this.#store = config.store;
+    this.#onStoreError = config.onStoreError;
+    this.#retention =
+      config.retention ??
+      (config.store ? { maxItemsPerSource: DEFAULT_STORED_ITEMS_PER_SOURCE } : {});
+    for (const [name, value] of Object.entries(this.#retention)) {
+      if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+        throw new RangeError(`retention.${name} must be >= 0`);
+      }
+    }
+    this.#maxWaitMs = config.maxWaitMs;
+    if (this.#maxWaitMs !== undefined) assertMaxWaitMs(this.#maxWaitMs);
+    this.#maxConcurrentSubmits = config.maxConcurrentSubmits;
+    if (
+      this.#maxConcurrentSubmits !== undefined &&
+      !(Number.isInteger(this.#maxConcurrentSubmits) && this.#maxConcurrentSubmits >= 1)
+    ) {
+      throw new RangeError("maxConcurrentSubmits must be an integer >= 1");
+    }
+    this.#fairness = config.fairness ?? "fifo";
+    this.#ready = config.store ? this.#recover(config.store) : Promise.resolve();
+    // Surfaced through `ready()` and `enqueue()`.
+    this.#ready.catch(() => {});
   }
 
-  getItems(sourceIdentity?: string): readonly TxQueueItem<unknown>[] {
-    if (sourceIdentity) return (this.#itemsBySource.get(sourceIdentity) ?? []).slice();
+  /** Resolves once stored items are loaded and their confirmation has resumed. */
+  ready(): Promise<void> {
+    return this.#ready;
+  }
+
+  /** Items still held by the queue, oldest first per source; a string filters by source. */
+  getItems(filter: string | TxQueueItemFilter = {}): readonly TxQueueItem<unknown>[] {
+    const { sourceIdentity, status, sinceMs, untilMs } =
+      typeof filter === "string" ? { sourceIdentity: filter } : filter;
+    const statuses = status === undefined ? undefined : ([] as TxQueueItemStatus[]).concat(status);
+    const lists = sourceIdentity
+      ? [this.#itemsBySource.get(sourceIdentity) ?? []]
+      : [...this.#itemsBySource.values()];
     const all: TxQueueItem<unknown>[] = [];
-    for (const items of this.#itemsBySource.values()) all.push(...items);
+    for (const items of lists) {
+      for (const item of items) {
+        if (statuses && !statuses.includes(item.status)) continue;
+        if (sinceMs !== undefined && item.createdAtMs < sinceMs) continue;
+        if (untilMs !== undefined && item.createdAtMs >= untilMs) continue;
+        all.push(item);
+      }
+    }
     return all;
   }
 
+  /**
+   * Stops an item: a queued one never starts, an active one stops being submitted, confirmed
+   * and rebroadcast, and its source moves on. A transaction that was already broadcast
+   * (`txId` set) may still be executed by the network. The item becomes `cancelled` and its
+   * `enqueue` resolves with it. Returns false when the item is unknown or already finished.
+   */
+  cancel(id: string, reason?: unknown): boolean {
+    return this.#stopItem(id, "cancelled", reason);
+  }
+
+  /**
+   * Cancels the source's queued items and resolves once its active item, left to finish, has
+   * settled. Pair with `pause` to keep later enqueues from starting in the meantime.
+   */
+  async drain(sourceIdentity: string, reason?: unknown): Promise<void> {
+    const queued = this.#waitingBySource.get(sourceIdentity) ?? [];
+    this.#waitingBySource.delete(sourceIdentity);
+    for (const entry of queued) entry.stop("cancelled", reason);
+    await this.#activeBySource.get(sourceIdentity)?.done;
+  }
+
+  /** Holds the source's queued and new items as `pending`; an active item keeps running. */
+  pause(sourceIdentity: string): void {
+    this.#paused.add(sourceIdentity);
+  }
+
+  /** Starts the next queued item of a paused source, if it is idle. */
+  resume(sourceIdentity: string): void {
+    if (!this.#paused.delete(sourceIdentity)) return;
+    this.#startNext(sourceIdentity);
+  }
+
+  isPaused(sourceIdentity: string): boolean {
+    return this.#paused.has(sourceIdentity);
+  }
+
+  /** Applies the retention policy now; returns how many items were evicted. */
+  prune(): number {
+    let evicted = 0;
+    for (const sourceIdentity of [...this.#itemsBySource.keys()]) {
+      evicted += this.#pruneSource(sourceIdentity);
+    }
+    return evicted;
+  }
+
   getActive(sourceIdentity: string): TxQueueItem<unknown> | undefined {
     return this.#activeBySource.get(sourceIdentity)?.item;
   }
 
+  /** Attaches a listener; returns a function that detaches it. */
+  on<E extends TxQueueEvent>(event: E, listener: TxQueueEvents[E]): () => void {
+    let set = this.#listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.#listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /** Yields status changes from now on, in order; breaking out of the loop detaches it. */
+  changes(options: TxQueueChangesOptions = {}): AsyncIterableIterator<TxQueueStatusChange> {
+    const buffer: TxQueueStatusChange[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    let detach: (() => void) | undefined;
+
+    const finish = () => {
+      done = true;
+      detach?.();
+      options.signal?.removeEventListener("abort", finish);
+      wake?.();
+    };
+
+    if (options.signal?.aborted) done = true;
+    else {
+      detach = this.on("change", (change) => {
+        if (options.sourceIdentity && change.item.sourceIdentity !== options.sourceIdentity) {
+          return;
+        }
+        buffer.push(change);
+        wake?.();
+      });
+      options.signal?.addEventListener("abort", finish, { once: true });
+    }
+
+    const iterator: AsyncIterableIterator<TxQueueStatusChange> = {
+      async next(): Promise<IteratorResult<TxQueueStatusChange>> {
+        while (buffer.length === 0 && !done) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+        }
+        const change = buffer.shift();
+        if (!change) return { done: true, value: undefined };
+        return { done: false, value: change };
+      },
+      async return(): Promise<IteratorResult<TxQueueStatusChange>> {
+        finish();
+        buffer.length = 0;
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+    return iterator;
+  }
+
+  getStats(): TxQueueStats {
+    const inFlightBySource = new Map<string, number>();
+    for (const source of this.#activeBySource.keys()) inFlightBySource.set(source, 1);
+    for (const [source, queued] of this.#waitingBySource) {
+      inFlightBySource.set(source, (inFlightBySource.get(source) ?? 0) + queued.length);
+    }
+    const byStatus: Record<TxQueueItemStatus, number> = {
+      pending: 0,
+      submitted: 0,
+      confirming: 0,
+      confirmed: 0,
+      failed: 0,
+      superseded: 0,
+      cancelled: 0,
+    };
+    for (const items of this.#itemsBySource.values()) {
+      for (const item of items) byStatus[item.status]++;
+    }
+    const sorted = [...this.#confirmLatencies].sort((a, b) => a - b);
+    return {
+      inFlight: [...inFlightBySource.values()].reduce((sum, n) => sum + n, 0),
+      inFlightBySource,
+      byStatus,
+      ...this.#totals,
+      confirmLatencyMs: {
+        count: sorted.length,
+        p50: percentile(sorted, 0.5),
+        p90: percentile(sorted, 0.9),
+        p99: percentile(sorted, 0.99),
+        max: sorted.at(-1),
+      },
+    };
+  }
+
   async enqueue<Result>(input: EnqueueTxInput<Result>): Promise<TxQueueItem<Result>> {
+    // Without a store there is nothing to wait for, and submit starts in the same tick.
+    if (this.#store) await this.#ready;
     const sourceIdentity = input.sourceIdentity;
     const targetTick = toBigint(input.targetTick);
     const policy = this.#policy;
+    const signal = input.signal;
+    if (signal?.aborted) throw signal.reason;
+    const priority = input.priority ?? 0;
+    if (!Number.isFinite(priority)) throw new RangeError("priority must be a finite number");
+    const maxWaitMs = input.maxWaitMs ?? this.#maxWaitMs;
+    if (input.maxWaitMs !== undefined) assertMaxWaitMs(input.maxWaitMs);
+    if (input.rebroadcast) assertRebroadcastOptions(input.rebroadcast);
 
     const existing = this.#activeBySource.get(sourceIdentity);
-    if (existing) {
+    const queued = this.#waitingBySource.get(sourceIdentity) ?? [];
+    const latest = queued.at(-1)?.item ?? existing?.item;
+    if (latest) {
       if (policy === "waitForConfirm") {
-        await existing.done;
+        // Queued below, behind the active item.
       } else if (policy === "reject") {
         throw new TxQueueError(
           `TxQueue rejected enqueue: source ${sourceIdentity} already has an active transaction`,
         );
       } else if (policy === "replaceHigherTick") {
-        if (targetTick <= existing.item.targetTick) {
+        if (targetTick <= latest.targetTick) {
           throw new TxQueueError(
-            `TxQueue rejected enqueue: targetTick ${targetTick} must be higher than active targetTick ${existing.item.targetTick}`,
+            `TxQueue rejected enqueue: targetTick ${targetTick} must be higher than active targetTick ${latest.targetTick}`,
           );
         }
-        existing.supersede();
+        this.#waitingBySource.delete(sourceIdentity);
+        for (const entry of queued) entry.stop("superseded");
+        existing?.stop("superseded");
       } else {
         throw new TxQueueError(`Unknown policy: ${policy}`);
       }
     }
 
     const id = crypto.randomUUID();
-    const controller = new AbortController();
     const createdAtMs = Date.now();
     const deferred = createDeferred<TxQueueItem<Result>>();
 
@@ -99,34 +485,297 @@ export class TxQueue {
       sourceIdentity,
       targetTick,
       createdAtMs,
+      priority: input.priority,
       status: "pending",
+      txBytes: input.txBytes,
     };
+    this.#pushItem(sourceIdentity, item as TxQueueItem<unknown>);
+    this.#enqueueOrder.set(item as TxQueueItem<unknown>, ++this.#enqueued);
+    this.#transition(item, "pending");
+    if (maxWaitMs !== undefined) {
+      const timer = setTimeout(() => {
+        this.#deadlines.delete(id);
+        this.#stopItem(
+          id,
+          "failed",
+          new TxQueueError(`TxQueue item was not submitted within ${maxWaitMs}ms`),
+        );
+      }, maxWaitMs);
+      this.#deadlines.set(id, timer);
+    }
+    if (signal) {
+      const onAbort = () => this.cancel(id, signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      void deferred.promise.then(() => signal.removeEventListener("abort", onAbort));
+    }
 
+    const start = () => {
+      const active = this.#activate(item, input.confirm ?? this.#confirm, deferred);
+      void this.#run(active, input, deferred);
+    };
+    if (this.#activeBySource.has(sourceIdentity) || this.#paused.has(sourceIdentity)) {
+      // Behind every queued item of the same or a higher priority.
+      const index = queued.findIndex((entry) => (entry.item.priority ?? 0) < priority);
+      queued.splice(index === -1 ? queued.length : index, 0, {
+        item: item as MutableTxQueueItem<unknown>,
+        start,
+        stop: (to, reason) => this.#stop(item, deferred, to, reason),
+      });
+      this.#waitingBySource.set(sourceIdentity, queued);
+    } else {
+      start();
+    }
+    return deferred.promise;
+  }
+
+  #activate<Result>(
+    item: MutableTxQueueItem<Result>,
+    confirm: TxQueueConfirmFn,
+    deferred: Deferred<TxQueueItem<Result>>,
+  ): ActiveItem<Result> {
+    const controller = new AbortController();
     const active: ActiveItem<Result> = {
       item,
       controller,
-      confirm: input.confirm ?? this.#confirm,
+      confirm,
       done: deferred.promise,
-      supersede: () => {
-        if (
-          item.status === "confirmed" ||
-          item.status === "failed" ||
-          item.status === "superseded"
-        ) {
-          return;
-        }
-        item.status = "superseded";
-        controller.abort();
-        deferred.resolve({ ...item });
-        this.#activeBySource.delete(sourceIdentity);
+      stop: (to, reason) => {
+        if (isFinished(item.status)) return;
+        controller.abort(reason);
+        this.#activeBySource.delete(item.sourceIdentity);
+        this.#stop(item, deferred, to, reason);
+        this.#startNext(item.sourceIdentity);
       },
     };
+    this.#activeBySource.set(item.sourceIdentity, active as ActiveItem<unknown>);
+    return active;
+  }
 
-    this.#activeBySource.set(sourceIdentity, active as ActiveItem<unknown>);
-    this.#pushItem(sourceIdentity, item as TxQueueItem<unknown>);
+  async #recover(store: TxQueueStore) {
+    const records = [...(await store.load())].sort((a, b) => a.createdAtMs - b.createdAtMs);
+    for (const record of records) {
+      const item: MutableTxQueueItem<unknown> = { ...record, recovered: true };
+      this.#pushItem(item.sourceIdentity, item);
+      this.#changedAtMs.set(item, Date.now());
+      if (isFinished(item.status)) continue;
+      if (item.txId === undefined) {
+        // The previous process died while submitting, so the bytes may already be on the
+        // network. Confirming them by their own id keeps the source blocked until the
+        // target tick settles the question.
+        const txId = item.txBytes && (await transactionId(item.txBytes).catch(() => undefined));
+        if (txId === undefined) {
+          this.#transition(
+            item,
+            "failed",
+            new TxQueueError(
+              "TxQueue was interrupted while submitting; the transaction may have been broadcast",
+            ),
+          );
+          await this.#persist(item);
+          continue;
+        }
+        item.txId = txId;
+      }
+      const deferred = createDeferred<TxQueueItem<unknown>>();
+      const active = this.#activate(item, this.#confirm, deferred);
+      void this.#settle(active, deferred, async () => {
+        if (item.status !== "confirming") this.#transition(item, "confirming");
+        await this.#confirmItem(active);
+        return true;
+      });
+    }
+    this.prune();
+  }
 
-    void this.#run(active, input, deferred);
-    return deferred.promise;
+  /** Stops a queued or active item; false when it is unknown or already finished. */
+  #stopItem(id: string, to: StopStatus, reason?: unknown): boolean {
+    for (const [sourceIdentity, queued] of this.#waitingBySource) {
+      const index = queued.findIndex((entry) => entry.item.id === id);
+      const entry = queued[index];
+      if (!entry) continue;
+      queued.splice(index, 1);
+      if (queued.length === 0) this.#waitingBySource.delete(sourceIdentity);
+      entry.stop(to, reason);
+      return true;
+    }
+    for (const active of this.#activeBySource.values()) {
+      if (active.item.id !== id) continue;
+      active.stop(to, reason);
+      return true;
+    }
+    return false;
+  }
+
+  /** Finishes an item that was stopped before it could settle. */
+  #stop<Result>(
+    item: MutableTxQueueItem<Result>,
+    deferred: Deferred<TxQueueItem<Result>>,
+    to: StopStatus,
+    reason?: unknown,
+  ) {
+    this.#transition(item, to, reason);
+    void this.#persist(item as TxQueueItem<unknown>);
+    deferred.resolve({ ...item });
+  }
+
+  /** Starts the oldest queued item once the source is idle and not paused. */
+  #startNext(sourceIdentity: string) {
+    if (this.#activeBySource.has(sourceIdentity) || this.#paused.has(sourceIdentity)) return;
+    const queued = this.#waitingBySource.get(sourceIdentity);
+    const next = queued?.shift();
+    if (queued?.length === 0) this.#waitingBySource.delete(sourceIdentity);
+    next?.start();
+  }
+
+  #transition(item: MutableTxQueueItem<unknown>, to: TxQueueItemStatus, error?: unknown) {
+    const atMs = Date.now();
+    const from = this.#changedAtMs.has(item) ? item.status : undefined;
+    const changedAtMs = this.#changedAtMs.get(item);
+    item.status = to;
+    if (to === "failed" || (to === "cancelled" && error !== undefined)) item.error = error;
+    this.#changedAtMs.set(item, atMs);
+    if (isFinished(to)) {
+      item.finishedAtMs = atMs;
+      this.#clearDeadline(item.id);
+    }
+
+    if (to === "submitted") this.#submittedAtMs.set(item, atMs);
+    if (isFinished(to)) this.#totals[to]++;
+    const submittedAtMs = this.#submittedAtMs.get(item);
+    if (to === "confirmed" && submittedAtMs !== undefined) {
+      this.#confirmLatencies.push(atMs - submittedAtMs);
+      if (this.#confirmLatencies.length > 1_000) this.#confirmLatencies.shift();
+    }
+
+    const change: TxQueueStatusChange = {
+      item: { ...item },
+      from,
+      to,
+      atMs,
+      elapsedMs: changedAtMs === undefined ? undefined : atMs - changedAtMs,
+      totalMs: atMs - item.createdAtMs,
+      error: to === "failed" || to === "cancelled" ? error : undefined,
+    };
+    for (const event of [to, "change"] as const) {
+      for (const listener of [...(this.#listeners.get(event) ?? [])]) {
+        try {
+          listener(change);
+        } catch {
+          // A faulty dashboard hook must not stall the queue.
+        }
+      }
+    }
+  }
+
+  /**
+   * Saves the item and, once it has finished, applies retention to its source. Writes are
+   * chained so a slow store never sees an item's states out of order.
+   */
+  #persist(item: TxQueueItem<unknown>): Promise<void> {
+    const store = this.#store;
+    if (store) {
+      const record = toRecord(item);
+      this.#saving = this.#saving
+        .then(() => store.save(record))
+        .catch((error: unknown) => this.#onStoreError?.(error));
+    }
+    if (isFinished(item.status)) this.#pruneSource(item.sourceIdentity);
+    return this.#saving;
+  }
+
+  #pruneSource(sourceIdentity: string, nowMs = Date.now()): number {
+    const items = this.#itemsBySource.get(sourceIdentity);
+    if (!items) return 0;
+    const { maxItemsPerSource, maxAgeMs, failedMaxAgeMs = maxAgeMs } = this.#retention;
+    const evicted = new Set<TxQueueItem<unknown>>();
+    let kept = 0;
+    for (let i = items.length - 1; i >= 0; i--) {
+      const item = items[i];
+      if (!item || !isFinished(item.status)) continue;
+      const ageMs = nowMs - (item.finishedAtMs ?? item.createdAtMs);
+      const limitMs = item.status === "failed" ? failedMaxAgeMs : maxAgeMs;
+      if (
+        (limitMs !== undefined && ageMs > limitMs) ||
+        (maxItemsPerSource !== undefined && kept >= maxItemsPerSource)
+      ) {
+        evicted.add(item);
+      } else {
+        kept++;
+      }
+    }
+    if (evicted.size === 0) return 0;
+
+    const remaining = items.filter((item) => !evicted.has(item));
+    if (remaining.length > 0) this.#itemsBySource.set(sourceIdentity, remaining);
+    else this.#itemsBySource.delete(sourceIdentity);
+    const store = this.#store;
+    if (store?.delete) {
+      const ids = [...evicted].map((item) => item.id);
+      this.#saving = this.#saving
+        .then(() => store.delete?.(ids))
+        .catch((error: unknown) => this.#onStoreError?.(error));
+    }
+    return evicted.size;
+  }
+
+  #clearDeadline(id: string) {
+    const timer = this.#deadlines.get(id);
+    if (timer === undefined) return;
+    clearTimeout(timer);
+    this.#deadlines.delete(id);
+  }
+
+  /** Resolves once the item holds one of the `maxConcurrentSubmits` slots. */
+  #acquireSubmitSlot(item: TxQueueItem<unknown>, signal: AbortSignal): Promise<void> {
+    if (this.#submitting < (this.#maxConcurrentSubmits ?? Number.POSITIVE_INFINITY)) {
+      this.#takeSubmitSlot(item.sourceIdentity);
+      return Promise.resolve();
+    }
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.#slotWaiters.indexOf(waiter);
+        if (index !== -1) this.#slotWaiters.splice(index, 1);
+        reject(signal.reason);
+      };
+      const waiter: SlotWaiter = {
+        item,
+        resolve: () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      this.#slotWaiters.push(waiter);
+    });
+  }
+
+  #releaseSubmitSlot() {
+    this.#submitting--;
+    let next: SlotWaiter | undefined;
+    for (const waiter of this.#slotWaiters) {
+      if (!next || this.#comesBefore(waiter.item, next.item)) next = waiter;
+    }
+    if (!next) return;
+    this.#slotWaiters.splice(this.#slotWaiters.indexOf(next), 1);
+    this.#takeSubmitSlot(next.item.sourceIdentity);
+    next.resolve();
+  }
+
+  #takeSubmitSlot(sourceIdentity: string) {
+    this.#submitting++;
+    this.#servedAtBySource.set(sourceIdentity, ++this.#served);
+  }
+
+  #comesBefore(a: TxQueueItem<unknown>, b: TxQueueItem<unknown>): boolean {
+    const byPriority = (a.priority ?? 0) - (b.priority ?? 0);
+    if (byPriority !== 0) return byPriority > 0;
+    if (this.#fairness === "roundRobin") {
+      const aServed = this.#servedAtBySource.get(a.sourceIdentity) ?? 0;
+      const bServed = this.#servedAtBySource.get(b.sourceIdentity) ?? 0;
+      if (aServed !== bServed) return aServed < bServed;
+    }
+    return (this.#enqueueOrder.get(a) ?? 0) < (this.#enqueueOrder.get(b) ?? 0);
   }
 
   #pushItem(sourceIdentity: string, item: TxQueueItem<unknown>) {
@@ -141,35 +790,101 @@ export class TxQueue {
     deferred: Deferred<TxQueueItem<Result>>,
   ) {
     const item = active.item;
-    try {
-      const submitted = await input.submit({ signal: active.controller.signal });
-      if (getStatus(item) === "superseded") return;
+    const isStopped = () => isFinished(getStatus(item)) || active.controller.signal.aborted;
+    await this.#settle(active, deferred, async () => {
+      // The bytes must be on disk before they can reach the network.
+      if (this.#store) await this.#persist(item as TxQueueItem<unknown>);
+      // Cancelled or timed out while its record was being written.
+      if (isStopped()) return false;
+      const limited = this.#maxConcurrentSubmits !== undefined;
+      if (limited) {
+        await this.#acquireSubmitSlot(item as TxQueueItem<unknown>, active.controller.signal);
+        if (isStopped()) {
+          this.#releaseSubmitSlot();
+          return false;
+        }
+      }
+      this.#clearDeadline(item.id);
+      const submittedAtMs = Date.now();
+      let submitted: Awaited<ReturnType<EnqueueTxInput<Result>["submit"]>>;
+      try {
+        submitted = await input.submit({ signal: active.controller.signal });
+      } finally {
+        if (limited) this.#releaseSubmitSlot();
+      }
+      if (isFinished(getStatus(item))) return false;
 
-      item.status = "submitted";
       item.txId = submitted.txId;
       item.result = submitted.result;
+      if (submitted.peersBroadcasted !== undefined) {
+        item.broadcasts = [{ atMs: submittedAtMs, peersBroadcasted: submitted.peersBroadcasted }];
+      }
+      this.#transition(item, "submitted");
+      this.#transition(item, "confirming");
+      await this.#persist(item as TxQueueItem<unknown>);
+      await this.#confirmItem(active, input.rebroadcast);
+      return true;
+    });
+  }
 
-      item.status = "confirming";
+  async #confirmItem<Result>(active: ActiveItem<Result>, rebroadcast?: TxQueueRebroadcast) {
+    const item = active.item;
+    const stopRebroadcast = new AbortController();
+    const rebroadcasting = rebroadcast
+      ? this.#rebroadcast(item, rebroadcast, stopRebroadcast.signal)
+      : undefined;
+    try {
       await active.confirm({
-        txId: submitted.txId,
+        txId: item.txId ?? "",
         targetTick: item.targetTick,
         signal: active.controller.signal,
       });
-      if (getStatus(item) === "superseded") return;
+    } finally {
+      stopRebroadcast.abort();
+      await rebroadcasting;
+    }
+  }
 
-      item.status = "confirmed";
-      deferred.resolve({ ...item });
+  /** Runs `work` and records the outcome, unless the item was superseded or cancelled meanwhile. */
+  async #settle<Result>(
+    active: ActiveItem<Result>,
+    deferred: Deferred<TxQueueItem<Result>>,
+    work: () => Promise<boolean>,
+  ) {
+    const item = active.item;
+    try {
+      const finished = await work();
+      if (!finished || isFinished(getStatus(item))) return;
+      this.#transition(item, "confirmed");
     } catch (err) {
-      if (getStatus(item) === "superseded") return;
-      item.status = "failed";
-      item.error = err;
-      deferred.resolve({ ...item });
+      if (isFinished(getStatus(item))) return;
+      this.#transition(item, "failed", err);
     } finally {
       const current = this.#activeBySource.get(item.sourceIdentity);
       if (current?.item.id === item.id) {
         this.#activeBySource.delete(item.sourceIdentity);
       }
     }
+    await this.#persist(item as TxQueueItem<unknown>);
+    deferred.resolve({ ...item });
+    this.#startNext(item.sourceIdentity);
+  }
+
+  /** Runs until `signal` aborts, which `#run` does once confirmation settles. */
+  #rebroadcast<Result>(
+    item: MutableTxQueueItem<Result>,
+    rebroadcast: TxQueueRebroadcast,
+    signal: AbortSignal,
+  ): Promise<void> {
+    return rebroadcastUntilProcessed({
+      ...rebroadcast,
+      targetTick: item.targetTick,
+      broadcasts: item.broadcasts?.length,
+      signal,
+      onAttempt: (attempt) => {
+        item.broadcasts = [...(item.broadcasts ?? []), attempt];
+      },
+    });
   }
 }
 
@@ -182,9 +897,27 @@ type ActiveItem<Result> = Readonly<{
   controller: AbortController;
   confirm: TxQueueConfirmFn;
   done: Promise<TxQueueItem<Result>>;
-  supersede: () => void;
+  stop: (to: StopStatus, reason?: unknown) => void;
+}>;
+
+type FinishedStatus = Exclude<TxQueueItemStatus, "pending" | "submitted" | "confirming">;
+
+/** A `pending` item waiting for its source to become idle and unpaused. */
+type QueuedItem = Readonly<{
+  item: MutableTxQueueItem<unknown>;
+  start: () => void;
+  stop: (to: StopStatus, reason?: unknown) => void;
+}>;
+
+/** An active item waiting for a `maxConcurrentSubmits` slot. */
+type SlotWaiter = Readonly<{
+  item: TxQueueItem<unknown>;
+  resolve: () => void;
 }>;
 
+/** Outcomes of cancel, supersede and an expired `maxWaitMs`. */
+type StopStatus = "superseded" | "cancelled" | "failed";
+
 type Deferred<T> = Readonly<{
   promise: Promise<T>;
   resolve: (value: T) => void;
@@ -201,6 +934,45 @@ function createDeferred<T>(): Deferred<T> {
   return { promise, resolve, reject };
 }
 
+function isFinished(status: TxQueueItemStatus): status is FinishedStatus {
+  return (
+    status === "confirmed" ||
+    status === "failed" ||
+    status === "superseded" ||
+    status === "cancelled"
+  );
+}
+
+function assertMaxWaitMs(value: number) {
+  if (!Number.isFinite(value) || value <= 0) throw new RangeError("maxWaitMs must be > 0");
+}
+
+function percentile(sorted: readonly number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function toRecord(item: TxQueueItem<unknown>): TxQueueRecord {
+  return {
+    id: item.id,
+    sourceIdentity: item.sourceIdentity,
+    targetTick: item.targetTick,
+    createdAtMs: item.createdAtMs,
+    finishedAtMs: item.finishedAtMs,
+    status: item.status,
+    txId: item.txId,
+    txBytes: item.txBytes,
+    error: item.error === undefined ? undefined : errorMessage(item.error),
+    broadcasts: item.broadcasts?.map((attempt) =>
+      attempt.error === undefined ? attempt : { ...attempt, error: errorMessage(attempt.error) },
+    ),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 function toBigint(value: bigint | number): bigint {
   if (typeof value === "bigint") return value;
   if (!Number.isFinite(value) || !Number.isInteger(value)) {
@@ -1,3 +1,4 @@
+import type { RequestOptions } from "../http.js";
 import type { BroadcastTransactionResult, QueryTransaction, RpcClient } from "../rpc/client.js";
 import type { TxConfirmationHelpers, WaitForConfirmationInput } from "./confirm.js";
 import { createTxConfirmationHelpers } from "./confirm.js";
@@ -8,7 +9,10 @@ export type TxHelpersConfig = Readonly<{
 }>;
 
 export type TxHelpers = Readonly<{
-  broadcastSigned(txBytes: Uint8Array | string): Promise<BroadcastTransactionResult>;
+  broadcastSigned(
+    txBytes: Uint8Array | string,
+    options?: RequestOptions,
+  ): Promise<BroadcastTransactionResult>;
   waitForConfirmation(input: WaitForConfirmationInput): Promise<void>;
   waitForConfirmedTransaction(input: WaitForConfirmationInput): Promise<QueryTransaction>;
 }>;
@@ -21,8 +25,11 @@ export function createTxHelpers(config: TxHelpersConfig): TxHelpers {
     });
 
   return {
-    async broadcastSigned(txBytes: Uint8Array | string): Promise<BroadcastTransactionResult> {
-      return config.rpc.live.broadcastTransaction(txBytes);
+    async broadcastSigned(
+      txBytes: Uint8Array | string,
+      options?: RequestOptions,
+    ): Promise<BroadcastTransactionResult> {
+      return config.rpc.live.broadcastTransaction(txBytes, options);
     },
 
     async waitForConfirmation(input: WaitForConfirmationInput): Promise<void> {